@@ -1,8 +1,90 @@
-import React, { useRef, useEffect, useCallback, useState, RefObject } from 'react';
+import React, { useRef, useEffect, useCallback, useState, useImperativeHandle, forwardRef, RefObject } from 'react';
 import * as THREE from 'three';
 //@ts-ignore
 import { addPropertyControls, ControlType } from 'framer';
 
+// Upper bound on simultaneously tracked pointers; sizes the brush uniform arrays.
+const MAX_POINTERS = 10;
+// Extra physics brush slots for strokes queued through the imperative API.
+const MAX_SCRIPTED_STROKES = 6;
+const MAX_BRUSHES = MAX_POINTERS + MAX_SCRIPTED_STROKES;
+// Edge length of the reduced physics summary that is read back to the CPU.
+const REDUCE_SIZE = 16;
+// Droplet simulation capacity, and how many running droplets can streak per physics step.
+const MAX_DROPLETS = 256;
+const MAX_TRAILS = 16;
+// Surface pattern ids, in the order the main shader's uSurfacePattern switch expects.
+const SURFACE_PATTERNS: ClarityProps['surfacePattern'][] = ['none', 'reeded', 'hammered', 'ice', 'rain'];
+// Fit mode ids, in the order copyFragmentShader's uFitMode expects.
+const FIT_MODES: ClarityProps['objectFit'][] = ['cover', 'contain', 'fill', 'none'];
+
+// Default physics tuning; matches the constants the shader originally shipped with.
+const DEFAULT_PHYSICS: ClarityPhysics = {
+  dripRetention: 0.985,
+  waterEvaporation: 0.97,
+  waterToDripConversion: 0.01,
+  dripClearFactor: 0.9,
+  dripOffset: 2.0,
+  frostToWaterConversion: 0.5,
+};
+
+// Numeric color grade of the frosted and revealed layers; neutral by default.
+const DEFAULT_GRADE = {
+  frostTintOpacity: 0,
+  frostSaturation: 1,
+  frostContrast: 1,
+  revealBrightness: 1,
+  revealSaturation: 1,
+  revealContrast: 1,
+  vignetteStrength: 0,
+};
+
+// Physics state (clear, water, drip) is stored as-is in float targets. Without renderable
+// floats it is packed into RGBA8 with PHYSICS_PACKED defined: clear gets 16 bits across r/g
+// so slow refrost rates are not lost to rounding, water and drip keep 8 bits in b/a.
+// PHYSICS_NEAREST marks float targets the GPU can't filter, sampled by hand like packed ones.
+const physicsEncodingChunk = `
+  vec4 encodePhysics(vec3 state) {
+    state = clamp(state, 0.0, 1.0);
+  #ifdef PHYSICS_PACKED
+    float clear = floor(state.r * 65535.0 + 0.5);
+    float high = floor(clear / 256.0);
+    float low = clear - high * 256.0;
+    // Truncate the decaying channels so they can reach zero instead of rounding back up.
+    return vec4(high / 255.0, low / 255.0, floor(state.g * 255.0) / 255.0, floor(state.b * 255.0) / 255.0);
+  #else
+    return vec4(state, 1.0);
+  #endif
+  }
+
+  vec3 decodePhysics(vec4 texel) {
+  #ifdef PHYSICS_PACKED
+    return vec3((texel.r * 255.0 * 256.0 + texel.g * 255.0) / 65535.0, texel.b, texel.a);
+  #else
+    return texel.rgb;
+  #endif
+  }
+
+  vec3 samplePhysics(sampler2D tex, vec2 uv) {
+  #if defined(PHYSICS_PACKED) || defined(PHYSICS_NEAREST)
+    // Packed texels can't be filtered by the GPU, so interpolate after decoding.
+    vec2 size = vec2(textureSize(tex, 0));
+    vec2 st = uv * size - 0.5;
+    vec2 base = floor(st);
+    vec2 f = st - base;
+    vec2 texel = 1.0 / size;
+    vec2 origin = (base + 0.5) * texel;
+    vec3 a = decodePhysics(texture2D(tex, origin));
+    vec3 b = decodePhysics(texture2D(tex, origin + vec2(texel.x, 0.0)));
+    vec3 c = decodePhysics(texture2D(tex, origin + vec2(0.0, texel.y)));
+    vec3 d = decodePhysics(texture2D(tex, origin + texel));
+    return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+  #else
+    return texture2D(tex, uv).rgb;
+  #endif
+  }
+`;
+
 // --- Shaders ---
 const Shaders = {
   vertexShader: `
@@ -15,90 +97,152 @@ const Shaders = {
   `,
 
   physicsFragmentShader: `
-    precision mediump float;
+    // highp keeps tiny per-step refrost increments from vanishing on fp16 mobile GPUs.
+    precision highp float;
     uniform sampler2D uPreviousFrame; // r: clear, g: water, b: drip
     uniform vec2 uResolution;
-    uniform vec2 uMouse;
+    uniform vec2 uBrushPoints[${MAX_BRUSHES}];
+    uniform vec2 uBrushPrevPoints[${MAX_BRUSHES}];
+    uniform float uBrushWidths[${MAX_BRUSHES}]; // radius multiplier, 0 when inactive
     uniform float uBrushSize;
     uniform float uRefrostRate;
-    uniform float uIsMouseActive;
+    uniform float uRevealLevel; // programmatic floor for clear
+    uniform float uFrostLevel; // programmatic ceiling for frost removal
+    uniform sampler2D uMask; // luminance: 0 keeps the glass clear, 1 frosts at the full refrost rate
+    uniform float uHasMask;
+    uniform sampler2D uEtch; // alpha: coverage of the etched text / SVG
+    uniform float uEtchMode; // 0: none, 1: etched clear, 2: etched frost
+    uniform float uDripRetention;
+    uniform float uWaterEvaporation;
+    uniform float uDripClearFactor;
+    uniform float uFrostToWaterConversion;
+    uniform vec2 uTrailStarts[${MAX_TRAILS}]; // running droplet path this step, in physics pixels
+    uniform vec2 uTrailEnds[${MAX_TRAILS}];
+    uniform float uTrailRadii[${MAX_TRAILS}]; // 0 when unused
     varying vec2 vUv;
 
-    #define DRIP_RETENTION 0.985
-    #define WATER_EVAPORATION 0.97
-    #define WATER_TO_DRIP_CONVERSION 0.01
-    #define DRIP_CLEAR_FACTOR 0.9
-    #define DRIP_OFFSET_PIXELS 2.0
-    #define FROST_TO_WATER_CONVERSION 0.5
+    ${physicsEncodingChunk}
+
+    // Distance to the segment a-b, so each stroke clears a capsule rather than a dot.
+    float segmentDistance(vec2 p, vec2 a, vec2 b) {
+      vec2 pa = p - a;
+      vec2 ba = b - a;
+      float h = clamp(dot(pa, ba) / max(dot(ba, ba), 0.0001), 0.0, 1.0);
+      return length(pa - ba * h);
+    }
 
     void main() {
-      vec4 state = texture2D(uPreviousFrame, vUv);
+      vec3 state = samplePhysics(uPreviousFrame, vUv);
       float clear = state.r;
       float water = state.g;
       float drip = state.b;
 
-      // 1. Wiping converts frost to water
+      // 1. Wiping converts frost to water (every active pointer and scripted stroke contributes)
       float brush = 0.0;
-      if (uIsMouseActive > 0.5) {
-        float dist = distance(gl_FragCoord.xy, uMouse);
-        brush = 1.0 - smoothstep(0.0, uBrushSize, dist);
+      for (int i = 0; i < ${MAX_BRUSHES}; i++) {
+        if (uBrushWidths[i] > 0.0) {
+          float dist = segmentDistance(gl_FragCoord.xy, uBrushPrevPoints[i], uBrushPoints[i]);
+          brush = max(brush, 1.0 - smoothstep(0.0, uBrushSize * uBrushWidths[i], dist));
+        }
       }
       
       float newClear = max(clear, brush);
-      float frostRemoved = max(0.0, (newClear - clear) * FROST_TO_WATER_CONVERSION);
+      float frostRemoved = max(0.0, (newClear - clear) * uFrostToWaterConversion);
       water += frostRemoved;
       clear = newClear;
 
-      // 2. Water coalesces and creates potential for drips
-      drip += water * WATER_TO_DRIP_CONVERSION;
+      // 2. Wet streaks left by earlier droplets slowly dry up
+      drip *= uDripRetention;
 
-      // 3. Gravity pulls drips down (Advection)
-      vec2 dripOffset = vec2(0.0, 1.0 / uResolution.y) * DRIP_OFFSET_PIXELS;
-      float incomingDrip = texture2D(uPreviousFrame, vUv - dripOffset).b;
-      drip = incomingDrip * DRIP_RETENTION;
+      // 3. Running droplets (simulated on the CPU) lay down fresh streaks
+      for (int i = 0; i < ${MAX_TRAILS}; i++) {
+        if (uTrailRadii[i] > 0.0) {
+          float dist = segmentDistance(gl_FragCoord.xy, uTrailStarts[i], uTrailEnds[i]);
+          drip = max(drip, 1.0 - smoothstep(0.0, uTrailRadii[i], dist));
+        }
+      }
 
-      // 4. Drips clear a path in the frost
-      clear = max(clear, drip * DRIP_CLEAR_FACTOR);
+      // 4. Streaks clear a path in the frost
+      clear = max(clear, drip * uDripClearFactor);
       
       // 5. Water evaporates/dries
-      water *= WATER_EVAPORATION;
+      water *= uWaterEvaporation;
+
+      // 6. Frost slowly returns in non-wet, non-wiped areas, at a speed scaled by the mask
+      float mask = uHasMask > 0.5 ? dot(texture2D(uMask, vUv).rgb, vec3(0.299, 0.587, 0.114)) : 1.0;
+      clear -= uRefrostRate * mask * (1.0 - water);
+
+      // 7. Programmatic reveal / refrost transitions
+      clear = max(clear, uRevealLevel);
+      clear = min(clear, 1.0 - uFrostLevel);
 
-      // 6. Frost slowly returns in non-wet, non-wiped areas
-      clear -= uRefrostRate * (1.0 - water);
+      // 8. Black mask regions can never hold frost
+      clear = max(clear, 1.0 - smoothstep(0.0, 0.05, mask));
 
-      gl_FragColor = vec4(clamp(clear, 0.0, 1.0), clamp(water, 0.0, 1.0), clamp(drip, 0.0, 1.0), 1.0);
+      // 9. Etched content stays permanently clear, or permanently frosted
+      if (uEtchMode > 0.5) {
+        float etch = texture2D(uEtch, vUv).a;
+        clear = uEtchMode > 1.5 ? min(clear, 1.0 - etch) : max(clear, etch);
+      }
+
+      gl_FragColor = encodePhysics(vec3(clear, water, drip));
     }
   `,
 
   copyFragmentShader: `
     precision mediump float;
     uniform sampler2D uTexture;
+    uniform sampler2D uNextTexture; // incoming playlist slide
     uniform vec2 uResolution;
-    uniform vec2 uImageResolution;
+    uniform vec2 uImageResolution; // intrinsic media size, in CSS pixels
+    uniform vec2 uNextImageResolution;
+    uniform float uTransition; // 0: current slide only, 1: next slide only
+    uniform int uTransitionMode; // 0 crossfade, 1 wipe
+    uniform float uPixelRatio;
+    uniform int uFitMode; // 0 cover, 1 contain, 2 fill, 3 none
+    uniform vec2 uFocalPoint; // 0-1 from the image's top-left; positions the crop like object-position
+    uniform float uZoom; // Ken Burns zoom around the focal point
+    uniform vec2 uPan; // Ken Burns drift, in image UV
+    uniform float uMirror; // 1: flip horizontally, for a camera mirror
     varying vec2 vUv;
 
-    vec2 getCoverUv(vec2 uv) {
-        vec2 st = uv;
-        if (uImageResolution.y > 0.0) {
-            float canvasAspect = uResolution.x / uResolution.y;
-            float imageAspect = uImageResolution.x / uImageResolution.y;
+    vec2 getFitUv(vec2 uv, vec2 imageSize) {
+        if (imageSize.y <= 0.0) return uv;
 
-            if (canvasAspect > imageAspect) {
-                // Canvas is wider than image. Fit to width, crop top/bottom.
-                float scale = canvasAspect / imageAspect;
-                st.y = st.y * scale - (scale - 1.0) / 2.0;
-            } else {
-                // Canvas is taller than image. Fit to height, crop left/right.
-                float scale = imageAspect / canvasAspect;
-                st.x = st.x * scale - (scale - 1.0) / 2.0;
-            }
-        }
-        return st;
+        // 1. Size of the displayed image in canvas pixels
+        vec2 displaySize = uResolution;
+        if (uFitMode == 0) displaySize = imageSize * max(uResolution.x / imageSize.x, uResolution.y / imageSize.y);
+        else if (uFitMode == 1) displaySize = imageSize * min(uResolution.x / imageSize.x, uResolution.y / imageSize.y);
+        else if (uFitMode == 3) displaySize = imageSize * uPixelRatio;
+
+        // 2. Place it so the focal point lines up across the slack (UVs run bottom-up)
+        vec2 focal = vec2(uFocalPoint.x, 1.0 - uFocalPoint.y);
+        vec2 offset = (uResolution - displaySize) * focal;
+        vec2 st = (uv * uResolution - offset) / displaySize;
+
+        // 3. Ken Burns pan/zoom around the focal point
+        return (st - focal) / uZoom + focal + uPan;
+    }
+
+    vec4 sampleFit(sampler2D tex, vec2 imageSize) {
+      vec2 uv = uMirror > 0.5 ? vec2(1.0 - vUv.x, vUv.y) : vUv;
+      vec2 imageUv = getFitUv(uv, imageSize);
+      // Letterboxed areas of contain/none stay empty.
+      if (imageUv.x < 0.0 || imageUv.x > 1.0 || imageUv.y < 0.0 || imageUv.y > 1.0) return vec4(0.0);
+      return texture2D(tex, imageUv);
     }
 
     void main() {
-      vec2 imageUv = getCoverUv(vUv);
-      gl_FragColor = texture2D(uTexture, imageUv);
+      vec4 color = sampleFit(uTexture, uImageResolution);
+      if (uTransition > 0.0) {
+        vec4 next = sampleFit(uNextTexture, uNextImageResolution);
+        // The wipe sweeps a soft edge left to right, starting and ending fully off-screen.
+        float amount = uTransitionMode == 1
+          ? 1.0 - smoothstep(uTransition * 1.2 - 0.2, uTransition * 1.2, vUv.x)
+          : uTransition;
+        color = mix(color, next, amount);
+      }
+      gl_FragColor = color;
     }
   `,
 
@@ -107,20 +251,173 @@ const Shaders = {
     uniform sampler2D uInput;
     uniform vec2 uResolution;
     uniform vec2 uDirection;
+    uniform float uRadius; // texels covered by this pass
+    uniform int uTaps; // taps on each side of the center
     varying vec2 vUv;
 
+    #define MAX_TAPS 16
+
+    void main() {
+      vec2 pixelSize = 1.0 / uResolution.xy;
+      float sigma = max(uRadius * 0.4, 0.0001);
+      vec3 color = texture2D(uInput, vUv).rgb;
+      float total = 1.0;
+      for (int i = 1; i <= MAX_TAPS; i++) {
+          if (i > uTaps) break;
+          float offsetLength = uRadius * float(i) / float(uTaps);
+          float weight = exp(-0.5 * offsetLength * offsetLength / (sigma * sigma));
+          vec2 offset = offsetLength * uDirection * pixelSize;
+          color += texture2D(uInput, vUv + offset).rgb * weight;
+          color += texture2D(uInput, vUv - offset).rgb * weight;
+          total += 2.0 * weight;
+      }
+      gl_FragColor = vec4(color / total, 1.0);
+    }
+  `,
+
+  // Dual Kawase: each level halves the resolution, so a few cheap passes cover a large radius.
+  kawaseDownFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uInput;
+    uniform vec2 uTexelSize; // of the input
+    uniform float uOffset;
+    varying vec2 vUv;
+
+    void main() {
+      vec2 d = uTexelSize * uOffset;
+      vec3 color = texture2D(uInput, vUv).rgb * 4.0;
+      color += texture2D(uInput, vUv + vec2(-d.x, -d.y)).rgb;
+      color += texture2D(uInput, vUv + vec2( d.x, -d.y)).rgb;
+      color += texture2D(uInput, vUv + vec2(-d.x,  d.y)).rgb;
+      color += texture2D(uInput, vUv + vec2( d.x,  d.y)).rgb;
+      gl_FragColor = vec4(color / 8.0, 1.0);
+    }
+  `,
+
+  kawaseUpFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uInput;
+    uniform vec2 uTexelSize; // of the input
+    uniform float uOffset;
+    varying vec2 vUv;
+
+    void main() {
+      vec2 d = uTexelSize * uOffset;
+      vec3 color = texture2D(uInput, vUv + vec2(-d.x * 2.0, 0.0)).rgb;
+      color += texture2D(uInput, vUv + vec2( d.x * 2.0, 0.0)).rgb;
+      color += texture2D(uInput, vUv + vec2(0.0, -d.y * 2.0)).rgb;
+      color += texture2D(uInput, vUv + vec2(0.0,  d.y * 2.0)).rgb;
+      color += texture2D(uInput, vUv + vec2(-d.x, -d.y)).rgb * 2.0;
+      color += texture2D(uInput, vUv + vec2( d.x, -d.y)).rgb * 2.0;
+      color += texture2D(uInput, vUv + vec2(-d.x,  d.y)).rgb * 2.0;
+      color += texture2D(uInput, vUv + vec2( d.x,  d.y)).rgb * 2.0;
+      gl_FragColor = vec4(color / 12.0, 1.0);
+    }
+  `,
+
+  // Frosted glass scatters each ray a random amount rather than defocusing it, so every
+  // texel averages a per-pixel jittered disc. The noise is static, like a real etched surface.
+  scatterFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uInput;
+    uniform vec2 uResolution;
+    uniform float uRadius; // texels
+    varying vec2 vUv;
+
+    #define SCATTER_SAMPLES 16
+    #define GOLDEN_ANGLE 2.39996323
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+
     void main() {
-      vec3 color = vec3(0.0);
       vec2 pixelSize = 1.0 / uResolution.xy;
-      float weights[3] = float[](0.2270270270, 0.3162162162, 0.0702702703);
-      float offsets[3] = float[](0.0, 1.3846153846, 3.2307692308);
-      color += texture2D(uInput, vUv).rgb * weights[0];
-      for (int i = 1; i < 3; i++) {
-          vec2 offset = offsets[i] * uDirection * pixelSize;
-          color += texture2D(uInput, vUv + offset).rgb * weights[i];
-          color += texture2D(uInput, vUv - offset).rgb * weights[i];
+      float rotation = hash(gl_FragCoord.xy) * 6.28318530;
+      float jitter = hash(gl_FragCoord.yx + 17.0);
+      vec3 color = vec3(0.0);
+      for (int i = 0; i < SCATTER_SAMPLES; i++) {
+          float angle = rotation + float(i) * GOLDEN_ANGLE;
+          float reach = sqrt((float(i) + jitter) / float(SCATTER_SAMPLES)) * uRadius;
+          color += texture2D(uInput, vUv + vec2(cos(angle), sin(angle)) * reach * pixelSize).rgb;
+      }
+      gl_FragColor = vec4(color / float(SCATTER_SAMPLES), 1.0);
+    }
+  `,
+
+  reduceFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uPhysicsState;
+    varying vec2 vUv;
+
+    #define SAMPLES 4
+
+    ${physicsEncodingChunk}
+
+    // Each output texel averages a SAMPLES x SAMPLES grid of the physics cell beneath it.
+    // r: revealed fraction (matching the main pass reveal curve), g: average water.
+    void main() {
+      vec2 cellSize = vec2(1.0 / ${REDUCE_SIZE}.0);
+      vec2 cellOrigin = vUv - cellSize * 0.5;
+      float revealed = 0.0;
+      float water = 0.0;
+      for (int x = 0; x < SAMPLES; x++) {
+        for (int y = 0; y < SAMPLES; y++) {
+          vec2 uv = cellOrigin + (vec2(float(x), float(y)) + 0.5) / float(SAMPLES) * cellSize;
+          vec3 state = samplePhysics(uPhysicsState, uv);
+          revealed += smoothstep(0.0, 0.4, state.r);
+          water += state.g;
+        }
       }
-      gl_FragColor = vec4(color, 1.0);
+      float count = float(SAMPLES * SAMPLES);
+      gl_FragColor = vec4(revealed / count, water / count, 0.0, 1.0);
+    }
+  `,
+
+  // Droplets are drawn as point sprites into a lens map (rg: normal, b: height, a: coverage)
+  dropletVertexShader: `
+    precision mediump float;
+    attribute float aRadius;
+    uniform float uPixelScale;
+    void main() {
+      gl_PointSize = aRadius * 2.0 * uPixelScale;
+      gl_Position = vec4(position.xy, 0.0, 1.0);
+    }
+  `,
+
+  dropletFragmentShader: `
+    precision mediump float;
+    void main() {
+      // gl_PointCoord runs top-down; flip so the normal matches texture space.
+      vec2 p = gl_PointCoord * 2.0 - 1.0;
+      p.y = -p.y;
+      float r2 = dot(p, p);
+      if (r2 > 1.0) discard;
+      // Hemispherical cap: the normal tilts outward towards the rim.
+      float height = sqrt(1.0 - r2);
+      gl_FragColor = vec4(p * 0.5 + 0.5, height, 1.0);
+    }
+  `,
+
+  // Physics state -> 8-bit snapshot (r: clear, g: water, b: drip)
+  snapshotFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uPhysicsState;
+    varying vec2 vUv;
+    ${physicsEncodingChunk}
+    void main() {
+      gl_FragColor = vec4(samplePhysics(uPhysicsState, vUv), 1.0);
+    }
+  `,
+
+  // 8-bit snapshot -> physics state
+  restoreFragmentShader: `
+    precision mediump float;
+    uniform sampler2D uSnapshot;
+    varying vec2 vUv;
+    ${physicsEncodingChunk}
+    void main() {
+      gl_FragColor = encodePhysics(texture2D(uSnapshot, vUv).rgb);
     }
   `,
 
@@ -130,30 +427,161 @@ const Shaders = {
     uniform sampler2D uSceneTexture;
     uniform sampler2D uPhysicsState;
     uniform sampler2D uBlurredMap;
-    uniform vec2 uMouse;
+    uniform sampler2D uDroplets;
+    uniform float uHasDroplets;
+    uniform vec2 uBrushPoints[${MAX_POINTERS}];
+    uniform float uBrushWidths[${MAX_POINTERS}];
     uniform float uBrushSize;
     uniform float uChromaticAberration;
     uniform float uReflectivity;
     uniform float uBlurBrightness;
+    uniform float uRevealAlpha; // 1: cleared regions become transparent (live content / transparent background)
+    uniform float uFrostOpacity; // alpha of the frosted glass; below 1 only with a transparent background
+    uniform int uSurfacePattern; // 0 none, 1 reeded, 2 hammered, 3 ice, 4 rain
+    uniform float uSurfaceStrength;
+    uniform float uTime; // seconds, wrapped to keep mediump precision
+    uniform vec3 uFrostTint;
+    uniform float uFrostTintOpacity;
+    uniform float uFrostSaturation;
+    uniform float uFrostContrast;
+    uniform float uRevealBrightness;
+    uniform float uRevealSaturation;
+    uniform float uRevealContrast;
+    uniform vec3 uVignetteColor;
+    uniform float uVignetteStrength;
     varying vec2 vUv;
 
+    ${physicsEncodingChunk}
+
     float rand(vec2 n) { 
       return fract(sin(dot(n, vec2(12.9898, 4.1414))) * 43758.5453);
     }
 
+    vec3 grade(vec3 color, float saturation, float contrast) {
+      float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+      color = mix(vec3(luma), color, saturation);
+      return max((color - 0.5) * contrast + 0.5, 0.0);
+    }
+
+    // --- Surface patterns ---
+    // Heights are in units of the pane's height, so their gradients are dimensionless slopes.
+
+    vec2 hash22(vec2 p) {
+      vec3 q = fract(vec3(p.xyx) * vec3(0.1031, 0.1030, 0.0973));
+      q += dot(q, q.yzx + 33.33);
+      return fract((q.xx + q.yz) * q.zy);
+    }
+
+    float valueNoise(vec2 p) {
+      vec2 i = floor(p);
+      vec2 f = fract(p);
+      vec2 u = f * f * (3.0 - 2.0 * f);
+      return mix(mix(rand(i), rand(i + vec2(1.0, 0.0)), u.x),
+                 mix(rand(i + vec2(0.0, 1.0)), rand(i + vec2(1.0, 1.0)), u.x), u.y);
+    }
+
+    float fbm(vec2 p) {
+      float value = 0.0;
+      float amplitude = 0.5;
+      for (int i = 0; i < 4; i++) {
+        value += valueNoise(p) * amplitude;
+        p = p * 2.03 + 17.0;
+        amplitude *= 0.5;
+      }
+      return value;
+    }
+
+    // Vertical flutes with a rounded profile.
+    float reededHeight(vec2 p) {
+      const float frequency = 36.0;
+      return sin(fract(p.x * frequency) * 3.14159265) / frequency;
+    }
+
+    // Shallow overlapping dimples, one per Voronoi cell.
+    float hammeredHeight(vec2 p) {
+      const float frequency = 14.0;
+      vec2 cell = floor(p * frequency);
+      vec2 local = fract(p * frequency);
+      float nearest = 1.0;
+      for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+          vec2 offset = vec2(float(x), float(y));
+          vec2 toCenter = offset + hash22(cell + offset) - local;
+          nearest = min(nearest, dot(toCenter, toCenter));
+        }
+      }
+      return (nearest + fbm(p * 40.0) * 0.1) * 0.6 / frequency;
+    }
+
+    // Ridged, domain-warped noise reads as frost ferns. Crystals nucleate where the seed
+    // noise is low and spread as the glass refrosts.
+    float iceHeight(vec2 p, float frost) {
+      vec2 warped = p * 9.0 + vec2(fbm(p * 3.0), fbm(p * 3.0 + 5.2)) * 2.5;
+      float ridges = pow(1.0 - abs(fbm(warped) * 2.0 - 1.0), 4.0);
+      float seed = valueNoise(p * 2.5);
+      float growth = smoothstep(seed - 0.2, seed + 0.2, frost * 1.2 - 0.1);
+      return ridges * growth * 0.04;
+    }
+
+    // Beads of rain; each column of cells slides down at its own pace.
+    float rainHeight(vec2 p) {
+      float height = 0.0;
+      for (int layer = 0; layer < 2; layer++) {
+        float scale = layer == 0 ? 9.0 : 22.0;
+        vec2 grid = vec2(scale, scale * 0.5);
+        float column = floor(p.x * grid.x);
+        float speed = layer == 0 ? 0.04 + rand(vec2(column, 3.0)) * 0.05 : 0.0;
+        vec2 q = vec2(p.x, p.y + uTime * speed) * grid;
+        vec2 cell = floor(q);
+        vec2 jitter = hash22(cell + float(layer) * 31.0);
+        vec2 toCenter = (fract(q) - (0.25 + jitter * 0.5)) / grid;
+        float radius = (0.15 + jitter.x * 0.2) / scale;
+        toCenter.y *= layer == 0 ? 0.6 : 1.0; // running drops stretch along their path
+        float d = length(toCenter) / radius;
+        // Leave some cells dry so the window doesn't look evenly sprayed.
+        float present = step(0.35, rand(cell + 7.0 * float(layer)));
+        height = max(height, sqrt(max(0.0, 1.0 - d * d)) * radius * present);
+      }
+      return height;
+    }
+
+    float surfaceHeight(vec2 p, float frost) {
+      if (uSurfacePattern == 1) return reededHeight(p);
+      if (uSurfacePattern == 2) return hammeredHeight(p);
+      if (uSurfacePattern == 3) return iceHeight(p, frost);
+      if (uSurfacePattern == 4) return rainHeight(p);
+      return 0.0;
+    }
+
+    vec2 surfaceSlope(float frost) {
+      if (uSurfacePattern == 0 || uSurfaceStrength <= 0.0) return vec2(0.0);
+      vec2 p = gl_FragCoord.xy / uResolution.y;
+      float e = 1.0 / uResolution.y;
+      float dx = surfaceHeight(p + vec2(e, 0.0), frost) - surfaceHeight(p - vec2(e, 0.0), frost);
+      float dy = surfaceHeight(p + vec2(0.0, e), frost) - surfaceHeight(p - vec2(0.0, e), frost);
+      return vec2(dx, dy) / (2.0 * e) * uSurfaceStrength;
+    }
+
     void main() {
-      vec4 physics = texture2D(uPhysicsState, vUv);
+      vec3 physics = samplePhysics(uPhysicsState, vUv);
       float clearFactor = physics.r;
       float waterFactor = physics.g;
       float dripFactor = physics.b;
 
-      // 1. Calculate distortion from water/drips
-      float disturbance = (waterFactor * 0.2 + dripFactor) * 0.5;
-      vec2 distortion = vec2(dFdx(disturbance), dFdy(disturbance)) * -10.0;
+      // 1. Droplets act as tiny lenses, refracting (and flipping) what is behind them
+      vec4 droplet = uHasDroplets > 0.5 ? texture2D(uDroplets, vUv) : vec4(0.5, 0.5, 0.0, 0.0);
+      float dropletCoverage = droplet.a;
+      vec3 dropletNormal = normalize(vec3(droplet.rg * 2.0 - 1.0, max(droplet.b, 0.05)));
+      vec2 distortion = -dropletNormal.xy * 0.02 * dropletCoverage;
       
-      // 2. Add chromatic aberration (RGB shift)
+      // 2. Add chromatic aberration (RGB shift), strongest at droplet rims and on wet glass
+      float disturbance = (waterFactor * 0.2 + dripFactor) * 0.5 + dropletCoverage * (1.0 - droplet.b);
       float shift = uChromaticAberration * disturbance;
       vec2 uv = vUv + distortion;
+
+      // The surface pattern bends only what is seen through the frost; cleared glass is smooth.
+      vec2 surface = surfaceSlope(1.0 - clearFactor);
+      vec2 blurUv = uv - surface * 0.03;
       
       vec3 sceneColor = vec3(
         texture2D(uSceneTexture, uv + vec2(shift, 0.0)).r,
@@ -162,166 +590,1038 @@ const Shaders = {
       );
       
       vec3 blurredColor = vec3(
-        texture2D(uBlurredMap, uv + vec2(shift, 0.0)).r,
-        texture2D(uBlurredMap, uv).g,
-        texture2D(uBlurredMap, uv - vec2(shift, 0.0)).b
+        texture2D(uBlurredMap, blurUv + vec2(shift, 0.0)).r,
+        texture2D(uBlurredMap, blurUv).g,
+        texture2D(uBlurredMap, blurUv - vec2(shift, 0.0)).b
       );
 
-      // 3. Mix blurred and clear scenes
-      float revealFactor = smoothstep(0.0, 0.4, clearFactor);
-      vec3 finalColor = mix(blurredColor * uBlurBrightness, sceneColor, revealFactor);
+      // 3. Mix blurred and clear scenes; droplets wet the glass so they always look through
+      float revealFactor = max(smoothstep(0.0, 0.4, clearFactor), dropletCoverage);
+      vec3 frostColor = grade(blurredColor * uBlurBrightness, uFrostSaturation, uFrostContrast);
+      frostColor = mix(frostColor, uFrostTint, uFrostTintOpacity);
+      vec3 revealedColor = grade(sceneColor * uRevealBrightness, uRevealSaturation, uRevealContrast);
+      vec3 finalColor = mix(frostColor, revealedColor, revealFactor);
 
       // 4. Add dynamic reflections and highlights
       float nonClearFactor = 1.0 - revealFactor;
+      finalColor *= 1.0 + dot(surface, vec2(-0.4, 0.6)) * 0.15 * nonClearFactor;
       float shimmer = rand(vUv * 10.0 + distortion * 5.0);
       float highlight = pow(waterFactor + dripFactor, 2.0) * (0.5 + shimmer * 0.5) * nonClearFactor;
       finalColor += highlight * uReflectivity;
 
+      // Droplet specular glint and darker rims
+      vec3 lightDir = normalize(vec3(-0.4, 0.6, 1.0));
+      float specular = pow(max(dot(reflect(-lightDir, dropletNormal), vec3(0.0, 0.0, 1.0)), 0.0), 24.0);
+      finalColor *= 1.0 - (1.0 - droplet.b) * 0.35 * dropletCoverage;
+      finalColor += specular * dropletCoverage * (0.3 + uReflectivity);
+
       // Add pointer sheen, ensuring it fades out in clear areas
-      float sheen = 1.0 - smoothstep(0.0, uBrushSize * 1.5, distance(gl_FragCoord.xy, uMouse));
+      float sheen = 0.0;
+      for (int i = 0; i < ${MAX_POINTERS}; i++) {
+        if (uBrushWidths[i] > 0.0) {
+          sheen = max(sheen, 1.0 - smoothstep(0.0, uBrushSize * uBrushWidths[i] * 1.5, distance(gl_FragCoord.xy, uBrushPoints[i])));
+        }
+      }
       finalColor += sheen * 0.05 * (waterFactor + dripFactor) * nonClearFactor;
 
       // 5. Add noise to frosted areas
       float noise = (rand(vUv * 2.0) - 0.5) * 0.04;
       finalColor += noise * (1.0 - revealFactor);
 
-      gl_FragColor = vec4(finalColor, 1.0);
+      // Edge vignette (or inner glow with a light color) on the frost
+      float edge = smoothstep(0.5, 1.4, length((vUv - 0.5) * 2.0));
+      finalColor = mix(finalColor, uVignetteColor, edge * uVignetteStrength * nonClearFactor);
+
+      // 6. Output premultiplied alpha so content behind the canvas shows through cleared (and translucent) glass
+      float alpha = mix(uFrostOpacity, 1.0 - uRevealAlpha, revealFactor);
+      gl_FragColor = vec4(finalColor * alpha, alpha);
     }
   `,
 };
 
-// --- WebGL Controller Class ---
-class ClarityController {
-    // Core THREE.js objects
-    private canvas: HTMLCanvasElement;
-    private renderer: THREE.WebGLRenderer;
-    private camera: THREE.OrthographicCamera;
-    private planeGeometry: THREE.PlaneGeometry;
+// --- Animated Images ---
 
-    // Scenes and Materials
-    private mainScene: THREE.Scene;
-    private mainMaterial: THREE.ShaderMaterial;
-    private copyScene: THREE.Scene;
-    private copyMaterial: THREE.ShaderMaterial;
-    private physicsScene: THREE.Scene;
-    private physicsMaterial: THREE.ShaderMaterial;
-    private blurScene: THREE.Scene;
-    private blurMaterial: THREE.ShaderMaterial;
+// A sequence of full frames that can be drawn, in order, into a 2D context.
+interface FrameSource {
+    width: number;
+    height: number;
+    frameCount: number;
+    // Draws frame `index`, scaled to fill `ctx`'s canvas, and resolves with its delay in ms.
+    drawFrame(index: number, ctx: CanvasRenderingContext2D): Promise<number>;
+    close(): void;
+}
 
-    // Framebuffers / Render Targets
-    private physicsRenderTargetA: THREE.WebGLRenderTarget;
-    private physicsRenderTargetB: THREE.WebGLRenderTarget;
-    private sceneRenderTarget: THREE.WebGLRenderTarget;
-    private blurRenderTargetA: THREE.WebGLRenderTarget;
-    private blurRenderTargetB: THREE.WebGLRenderTarget;
+// Browsers treat frame delays of 10ms or less as 100ms; match them so old GIFs don't race.
+const toFrameDelay = (milliseconds: number) => milliseconds <= 10 ? 100 : milliseconds;
+const toGifDelay = (centiseconds: number) => toFrameDelay(centiseconds * 10);
 
-    // State
-    private props: Omit<ClarityProps, 'imageSource' | 'imageUrlLink' | 'videoSource' | 'videoUrlLink' | 'gifSource' | 'gifUrlLink'>;
-    private mousePosition = new THREE.Vector2(-1000, -1000);
-    private smoothedMouse = new THREE.Vector2(-1000, -1000);
-    private isMouseActive = false;
-    private mediaState: { type: string, src: string, loading: boolean } = { type: '', src: '', loading: false };
-    private videoElement: HTMLVideoElement | null = null;
-    private isCancelled = false;
-    private animationFrameId: number | null = null;
-    private loadMediaRequestId = 0;
-    
-    // Layout and Quality State
-    private layoutWidth = 0;
-    private layoutHeight = 0;
-    private pixelRatio = 1;
-    private downsampleFactor = 8;
-    
-    // Initialization State
-    private hasSizedOnce = false;
-    private isMediaReady = false;
+interface GifFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    delay: number; // ms
+    disposal: number; // 2: restore to background, 3: restore to previous
+    transparentIndex: number; // -1 when the frame has no transparency
+    interlaced: boolean;
+    palette: Uint8Array;
+    minCodeSize: number;
+    data: Uint8Array; // LZW stream with the sub-block framing removed
+}
 
-    // Animated properties for smooth transitions
-    private targetProps = { refrostRate: 0.0030, brushSize: 0.30 };
-    private animatedProps = { refrostRate: 0.0030, brushSize: 0.30 };
-    
-    // Callbacks to React component
-    private onError: (message: string | null) => void;
-    private onMediaLoaded: (resolution: THREE.Vector2 | null) => void;
+// Splits a GIF89a/87a file into its frames without decompressing them.
+function parseGif(bytes: Uint8Array) {
+    const signature = String.fromCharCode(...bytes.subarray(0, 6));
+    if (signature !== 'GIF87a' && signature !== 'GIF89a') throw new Error("Not a GIF file.");
 
-    // Resource Management State
-    private isPaused = false;
-    private isIdle = false;
-    private lastInteractionTime = Date.now();
+    const readU16 = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+    const width = readU16(6);
+    const height = readU16(8);
+    const screenFlags = bytes[10];
+    let pos = 13;
+    let globalPalette = new Uint8Array(0);
+    if (screenFlags & 0x80) {
+        const size = 3 * (1 << ((screenFlags & 7) + 1));
+        globalPalette = bytes.subarray(pos, pos + size);
+        pos += size;
+    }
 
-    // Constants
-    private static PHYSICS_DOWNSAMPLE_FACTOR = 4;
-    private static IDLE_TIMEOUT = 2000; // ms
-    private static IDLE_FRAME_INTERVAL = 100; // ms, for ~10fps
+    const readSubBlocks = () => {
+        const start = pos;
+        let length = 0;
+        while (pos < bytes.length && bytes[pos] !== 0) {
+            length += bytes[pos];
+            pos += bytes[pos] + 1;
+        }
+        pos++;
+        const data = new Uint8Array(length);
+        let offset = 0;
+        for (let at = start; bytes[at] !== 0 && at < bytes.length; at += bytes[at] + 1) {
+            data.set(bytes.subarray(at + 1, at + 1 + bytes[at]), offset);
+            offset += bytes[at];
+        }
+        return data;
+    };
 
-    constructor(
-        container: HTMLDivElement,
-        onError: (message: string | null) => void,
-        onMediaLoaded: (resolution: THREE.Vector2 | null) => void,
-        initialProps: ClarityProps
-    ) {
-        this.canvas = document.createElement('canvas');
-        this.canvas.style.width = '100%';
-        this.canvas.style.height = '100%';
-        this.canvas.style.display = 'block';
-        this.canvas.style.transition = 'opacity 0.3s';
-        this.canvas.ariaLabel = 'Interactive frosted glass pane';
-        container.appendChild(this.canvas);
+    const frames: GifFrame[] = [];
+    let control = { delay: 100, disposal: 0, transparentIndex: -1 };
+    while (pos < bytes.length) {
+        const block = bytes[pos++];
+        if (block === 0x3B) break; // trailer
+        if (block === 0x21) {
+            const label = bytes[pos++];
+            if (label === 0xF9) {
+                const flags = bytes[pos + 1];
+                control = {
+                    delay: toGifDelay(readU16(pos + 2)),
+                    disposal: (flags >> 2) & 7,
+                    transparentIndex: flags & 1 ? bytes[pos + 4] : -1,
+                };
+            }
+            readSubBlocks();
+        } else if (block === 0x2C) {
+            const flags = bytes[pos + 8];
+            const frame = { x: readU16(pos), y: readU16(pos + 2), width: readU16(pos + 4), height: readU16(pos + 6) };
+            pos += 9;
+            let palette = globalPalette;
+            if (flags & 0x80) {
+                const size = 3 * (1 << ((flags & 7) + 1));
+                palette = bytes.subarray(pos, pos + size);
+                pos += size;
+            }
+            const minCodeSize = bytes[pos++];
+            frames.push({ ...frame, ...control, interlaced: !!(flags & 0x40), palette, minCodeSize, data: readSubBlocks() });
+            control = { delay: 100, disposal: 0, transparentIndex: -1 };
+        } else {
+            break; // corrupt or unknown block; keep the frames read so far
+        }
+    }
+    if (frames.length === 0) throw new Error("GIF has no frames.");
+    return { width, height, frames };
+}
 
-        this.onError = onError;
-        this.onMediaLoaded = onMediaLoaded;
-        this.props = initialProps;
-        
-        this.targetProps.refrostRate = initialProps.refrostRate;
-        this.targetProps.brushSize = initialProps.brushSize;
-        this.animatedProps = { ...this.targetProps };
-        
-        this.setFrostQuality(initialProps.frostQuality);
-        this._initQuality(initialProps.quality);
-        this._initRendererAndCamera();
-        this._initGeometry();
-        this._initMaterials();
-        this._initScenes();
-        this._initRenderTargets();
-        this._initPointerEvents();
+// Variable-width LZW decompression into palette indices.
+function decodeGifLzw(minCodeSize: number, data: Uint8Array, pixelCount: number) {
+    const output = new Uint8Array(pixelCount);
+    const prefix = new Uint16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const stack = new Uint8Array(4097);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    for (let code = 0; code < clearCode; code++) suffix[code] = code;
+
+    let codeSize = minCodeSize + 1;
+    let codeMask = (1 << codeSize) - 1;
+    let available = clearCode + 2;
+    let oldCode = -1;
+    let first = 0;
+    let datum = 0;
+    let bits = 0;
+    let inPos = 0;
+    let outPos = 0;
+    let top = 0;
+
+    while (outPos < pixelCount) {
+        if (top === 0) {
+            while (bits < codeSize && inPos < data.length) {
+                datum |= data[inPos++] << bits;
+                bits += 8;
+            }
+            if (bits < codeSize) break;
+            let code = datum & codeMask;
+            datum >>= codeSize;
+            bits -= codeSize;
+
+            if (code === clearCode) {
+                codeSize = minCodeSize + 1;
+                codeMask = (1 << codeSize) - 1;
+                available = clearCode + 2;
+                oldCode = -1;
+                continue;
+            }
+            if (code === endCode) break;
+            if (oldCode === -1) {
+                stack[top++] = suffix[code];
+                oldCode = code;
+                first = code;
+                continue;
+            }
+
+            const inCode = code;
+            if (code >= available) {
+                // The code being defined right now: previous string plus its own first byte.
+                stack[top++] = first;
+                code = oldCode;
+            }
+            while (code > clearCode) {
+                stack[top++] = suffix[code];
+                code = prefix[code];
+            }
+            first = suffix[code];
+            stack[top++] = first;
+
+            if (available < 4096) {
+                prefix[available] = oldCode;
+                suffix[available] = first;
+                available++;
+                if ((available & codeMask) === 0 && available < 4096) {
+                    codeSize++;
+                    codeMask += available;
+                }
+            }
+            oldCode = inCode;
+        }
+        output[outPos++] = stack[--top];
     }
-    
-    private _initRendererAndCamera() {
-        this.renderer = new THREE.WebGLRenderer({
-            canvas: this.canvas,
-            antialias: false,
-            alpha: true,
-            powerPreference: 'low-power',
-        });
-        this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-        this.renderer.setPixelRatio(this.pixelRatio);
-        this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+    return output;
+}
+
+// Decodes GIF frames one at a time, in order, compositing them with their disposal methods.
+class GifFrameSource implements FrameSource {
+    public width: number;
+    public height: number;
+    public frameCount: number;
+    private frames: GifFrame[];
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private patch: HTMLCanvasElement;
+    private lastIndex = -1;
+    private restoreData: ImageData | null = null;
+
+    constructor(bytes: Uint8Array) {
+        const gif = parseGif(bytes);
+        this.width = gif.width;
+        this.height = gif.height;
+        this.frames = gif.frames;
+        this.frameCount = gif.frames.length;
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = gif.width;
+        this.canvas.height = gif.height;
+        this.ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
+        this.patch = document.createElement('canvas');
     }
 
-    private _initGeometry() {
-        this.planeGeometry = new THREE.PlaneGeometry(2, 2);
+    public async drawFrame(index: number, target: CanvasRenderingContext2D) {
+        // Frames build on each other, so jumping back (or looping) replays from the start.
+        if (index <= this.lastIndex) {
+            this.ctx.clearRect(0, 0, this.width, this.height);
+            this.lastIndex = -1;
+            this.restoreData = null;
+        }
+        while (this.lastIndex < index) this._composite(this.lastIndex + 1);
+
+        target.clearRect(0, 0, target.canvas.width, target.canvas.height);
+        target.drawImage(this.canvas, 0, 0, target.canvas.width, target.canvas.height);
+        return this.frames[index].delay;
     }
-    
-    private _initMaterials() {
-        this.mainMaterial = new THREE.ShaderMaterial({ 
-            vertexShader: Shaders.vertexShader, 
-            fragmentShader: Shaders.mainFragmentShader, 
-            uniforms: { 
-                uResolution: { value: new THREE.Vector2() }, 
-                uSceneTexture: { value: null }, 
+
+    private _composite(index: number) {
+        const previous = this.frames[index - 1];
+        if (previous?.disposal === 2) {
+            this.ctx.clearRect(previous.x, previous.y, previous.width, previous.height);
+        } else if (previous?.disposal === 3 && this.restoreData) {
+            this.ctx.putImageData(this.restoreData, previous.x, previous.y);
+        }
+
+        const frame = this.frames[index];
+        this.restoreData = frame.disposal === 3 ? this.ctx.getImageData(frame.x, frame.y, frame.width, frame.height) : null;
+
+        const indices = decodeGifLzw(frame.minCodeSize, frame.data, frame.width * frame.height);
+        const image = new ImageData(frame.width, frame.height);
+        const pixels = image.data;
+        const rows = frame.interlaced ? this._interlacedRows(frame.height) : null;
+        for (let row = 0; row < frame.height; row++) {
+            const targetRow = rows ? rows[row] : row;
+            for (let col = 0; col < frame.width; col++) {
+                const colorIndex = indices[row * frame.width + col];
+                if (colorIndex === frame.transparentIndex) continue;
+                const out = (targetRow * frame.width + col) * 4;
+                pixels[out] = frame.palette[colorIndex * 3];
+                pixels[out + 1] = frame.palette[colorIndex * 3 + 1];
+                pixels[out + 2] = frame.palette[colorIndex * 3 + 2];
+                pixels[out + 3] = 255;
+            }
+        }
+
+        // Transparent pixels must leave the composited canvas untouched, so draw rather than put.
+        this.patch.width = frame.width;
+        this.patch.height = frame.height;
+        this.patch.getContext('2d')!.putImageData(image, 0, 0);
+        this.ctx.drawImage(this.patch, frame.x, frame.y);
+        this.lastIndex = index;
+    }
+
+    // Interlaced GIFs store rows in four passes: every 8th from 0, every 8th from 4, every 4th from 2, every 2nd from 1.
+    private _interlacedRows(height: number) {
+        const rows: number[] = [];
+        for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+            for (let row = start; row < height; row += step) rows.push(row);
+        }
+        return rows;
+    }
+
+    public close() {
+        this.frames = [];
+    }
+}
+
+// Animated GIF, WebP and APNG through WebCodecs, which composites frames itself.
+class ImageDecoderFrameSource implements FrameSource {
+    public width = 0;
+    public height = 0;
+    public frameCount = 1;
+
+    private constructor(private decoder: ImageDecoder) {}
+
+    static async create(bytes: Uint8Array, type: string) {
+        const source = new ImageDecoderFrameSource(new ImageDecoder({ data: bytes, type }));
+        await source.decoder.tracks.ready;
+        source.frameCount = Math.max(1, source.decoder.tracks.selectedTrack?.frameCount ?? 1);
+        const { image } = await source.decoder.decode({ frameIndex: 0 });
+        source.width = image.displayWidth;
+        source.height = image.displayHeight;
+        image.close();
+        return source;
+    }
+
+    public async drawFrame(index: number, target: CanvasRenderingContext2D) {
+        const { image } = await this.decoder.decode({ frameIndex: index });
+        target.clearRect(0, 0, target.canvas.width, target.canvas.height);
+        target.drawImage(image, 0, 0, target.canvas.width, target.canvas.height);
+        // Durations are in microseconds, and missing for stills.
+        const delay = toFrameDelay((image.duration ?? 0) / 1000);
+        image.close();
+        return delay;
+    }
+
+    public close() {
+        this.decoder.close();
+    }
+}
+
+// Anything else (or a browser without a decoder for it) shows its first frame.
+class StillFrameSource implements FrameSource {
+    public frameCount = 1;
+    public width: number;
+    public height: number;
+
+    constructor(private bitmap: ImageBitmap) {
+        this.width = bitmap.width;
+        this.height = bitmap.height;
+    }
+
+    public async drawFrame(_index: number, target: CanvasRenderingContext2D) {
+        target.clearRect(0, 0, target.canvas.width, target.canvas.height);
+        target.drawImage(this.bitmap, 0, 0, target.canvas.width, target.canvas.height);
+        return Infinity;
+    }
+
+    public close() {
+        this.bitmap.close();
+    }
+}
+
+const sniffImageType = (bytes: Uint8Array) => {
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+    if (ascii(0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+    return '';
+};
+
+async function createFrameSource(bytes: Uint8Array, contentType: string): Promise<FrameSource> {
+    const type = sniffImageType(bytes) || contentType.split(';')[0].trim();
+    if (typeof ImageDecoder !== 'undefined' && type && await ImageDecoder.isTypeSupported(type)) {
+        try {
+            return await ImageDecoderFrameSource.create(bytes, type);
+        } catch (error) {
+            console.warn(`Clarity: ImageDecoder failed, falling back. ${(error instanceof Error) ? error.message : error}`);
+        }
+    }
+    if (type === 'image/gif') return new GifFrameSource(bytes);
+    return new StillFrameSource(await createImageBitmap(new Blob([bytes], { type })));
+}
+
+// Plays a FrameSource into a canvas texture, uploading only when the frame changes.
+class AnimatedImage {
+    public texture: THREE.CanvasTexture;
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private frameIndex = 0;
+    private frameDelay = Infinity;
+    private nextFrameTime = 0;
+    private isDecoding = false;
+    private isDisposed = false;
+    public isPaused = false;
+
+    // Playback that falls further behind than this (e.g. a hidden tab) resyncs instead of racing.
+    private static MAX_LAG = 1000; // ms
+
+    constructor(private source: FrameSource, width: number, height: number) {
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = width;
+        this.canvas.height = height;
+        this.ctx = this.canvas.getContext('2d')!;
+        this.texture = new THREE.CanvasTexture(this.canvas);
+        this.texture.colorSpace = THREE.SRGBColorSpace;
+    }
+
+    public async start() {
+        this.frameDelay = await this.source.drawFrame(0, this.ctx);
+        this.texture.needsUpdate = true;
+    }
+
+    public update(now: number) {
+        if (this.isPaused || this.isDecoding || this.isDisposed || this.source.frameCount < 2) return;
+        if (this.nextFrameTime === 0 || now - this.nextFrameTime > AnimatedImage.MAX_LAG) this.nextFrameTime = now + this.frameDelay;
+        if (now < this.nextFrameTime) return;
+
+        const index = (this.frameIndex + 1) % this.source.frameCount;
+        this.isDecoding = true;
+        this.source.drawFrame(index, this.ctx).then(delay => {
+            if (this.isDisposed) return;
+            this.frameIndex = index;
+            this.frameDelay = delay;
+            this.nextFrameTime += delay;
+            this.texture.needsUpdate = true;
+        }).catch(error => {
+            console.warn(`Clarity: Failed to decode animation frame ${index}. ${(error instanceof Error) ? error.message : error}`);
+            this.isPaused = true;
+        }).finally(() => {
+            this.isDecoding = false;
+        });
+    }
+
+    public pause() {
+        this.isPaused = true;
+    }
+
+    public play() {
+        this.isPaused = false;
+        this.nextFrameTime = 0;
+    }
+
+    /** Whether a render loop running every `interval` ms is fast enough for this animation. */
+    public canIdle(interval: number) {
+        return this.isPaused || this.source.frameCount < 2 || this.frameDelay >= interval;
+    }
+
+    public dispose() {
+        this.isDisposed = true;
+        this.source.close();
+        this.texture.dispose();
+    }
+}
+
+// --- Responsive Images ---
+
+// 1x1 AVIF and WebP files; whether they decode tells if the browser supports the format.
+const IMAGE_TYPE_PROBES: Record<string, string> = {
+  'image/avif': 'data:image/avif;base64,AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A=',
+  'image/webp': 'data:image/webp;base64,UklGRiIAAABXRUJQVlA4IBYAAAAwAQCdASoBAAEADsD+JaQAA3AAAAAA',
+};
+// Like the <source> order of a <picture>: the first supported format wins.
+const IMAGE_TYPE_PREFERENCE = ['image/avif', 'image/webp'];
+const imageTypeSupport = new Map<string, Promise<boolean>>();
+
+// Probed once per page; formats without a probe (JPEG, PNG, untyped) are assumed decodable.
+const supportsImageType = (type: string) => {
+  const probe = IMAGE_TYPE_PROBES[type];
+  if (!probe) return Promise.resolve(true);
+  let support = imageTypeSupport.get(type);
+  if (!support) {
+    support = new Promise<boolean>(resolve => {
+      const image = new Image();
+      image.onload = () => resolve(image.width > 0);
+      image.onerror = () => resolve(false);
+      image.src = probe;
+    });
+    imageTypeSupport.set(type, support);
+  }
+  return support;
+};
+
+// Picks the preferred supported format, then within it the narrowest candidate covering
+// `targetWidth` (the widest if none does), as `srcset` with `w` descriptors would.
+async function pickImageCandidate(candidates: ClarityImageCandidate[], targetWidth: number) {
+  const valid = candidates.filter(candidate => candidate && candidate.url && candidate.width > 0);
+  const rank = (type: string) => {
+    const index = IMAGE_TYPE_PREFERENCE.indexOf(type);
+    return index < 0 ? IMAGE_TYPE_PREFERENCE.length : index;
+  };
+  const types = [...new Set(valid.map(candidate => candidate.type || ''))].sort((a, b) => rank(a) - rank(b));
+  for (const type of types) {
+    if (!(await supportsImageType(type))) continue;
+    const group = valid.filter(candidate => (candidate.type || '') === type);
+    const covering = group.filter(candidate => candidate.width >= targetWidth);
+    return covering.length > 0
+      ? covering.reduce((best, candidate) => candidate.width < best.width ? candidate : best)
+      : group.reduce((best, candidate) => candidate.width > best.width ? candidate : best);
+  }
+  return null;
+}
+
+// --- Media Errors ---
+
+export type ClarityMediaErrorCode = 'cors' | 'not-found' | 'network' | 'decode' | 'unsupported' | 'autoplay' | 'camera' | 'webgl' | 'unknown';
+
+/** A media failure with a machine-readable code, reported through `onMediaError`. */
+export class ClarityMediaError extends Error {
+  code: ClarityMediaErrorCode;
+  url?: string;
+
+  constructor(code: ClarityMediaErrorCode, message: string, url?: string) {
+    super(message);
+    this.name = 'ClarityMediaError';
+    this.code = code;
+    this.url = url;
+  }
+
+  // Online, a CORS rejection looks the same to fetch as a server dropping the connection,
+  // so both are retried.
+  get retryable() {
+    return this.code === 'cors' || this.code === 'network';
+  }
+}
+
+// fetch rejects with a bare TypeError for both; only being offline tells them apart.
+const toFetchFailure = (url: string, kind: string) => navigator.onLine === false
+  ? new ClarityMediaError('network', `Failed to load ${kind}: the device is offline. ${url}`, url)
+  : new ClarityMediaError('cors', `Failed to load ${kind}. Check CORS policy or URL: ${url}`, url);
+
+const toHttpFailure = (response: Response, url: string, kind: string) => response.status === 404 || response.status === 410
+  ? new ClarityMediaError('not-found', `The ${kind} was not found (HTTP ${response.status}): ${url}`, url)
+  : new ClarityMediaError('network', `Failed to load ${kind} (HTTP ${response.status}): ${url}`, url);
+
+// Fetches media bytes, telling missing files apart from CORS and network failures.
+async function fetchMedia(url: string, kind: string): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors' });
+  } catch {
+    throw toFetchFailure(url, kind);
+  }
+  if (!response.ok) throw toHttpFailure(response, url, kind);
+  try {
+    return await response.blob();
+  } catch {
+    throw new ClarityMediaError('network', `The connection dropped while loading ${kind}: ${url}`, url);
+  }
+}
+
+// Media elements report missing files, CORS rejections and unplayable formats alike, so a
+// rejected source is requested again, headers only, to find out which it was.
+async function diagnoseMediaSource(url: string, kind: string): Promise<ClarityMediaError> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD', mode: 'cors' });
+  } catch {
+    return toFetchFailure(url, kind);
+  }
+  // Servers that don't answer HEAD still showed the file exists.
+  if (!response.ok && response.status !== 405 && response.status !== 501) return toHttpFailure(response, url, kind);
+  return new ClarityMediaError('unsupported', `The ${kind} format is not supported by this browser: ${url}`, url);
+}
+
+// play() rejections, by DOMException name; NotAllowedError is the autoplay policy.
+const toPlaybackFailure = (error: unknown, url: string) => {
+  const name = error instanceof DOMException ? error.name : '';
+  const code: ClarityMediaErrorCode = name === 'NotAllowedError' ? 'autoplay'
+    : name === 'NotSupportedError' ? 'unsupported'
+    : name === 'AbortError' ? 'network'
+    : 'unknown';
+  return new ClarityMediaError(code, `The video could not start playing. ${(error instanceof Error) ? error.message : error}`, url);
+};
+
+// --- Placeholders ---
+
+const BLURHASH_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const decodeBase83 = (value: string) => {
+  let result = 0;
+  for (const char of value) {
+    const digit = BLURHASH_DIGITS.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid blurhash character "${char}".`);
+    result = result * 83 + digit;
+  }
+  return result;
+};
+
+const srgbToLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSrgb = (value: number) => {
+  const v = Math.max(0, Math.min(1, value));
+  return Math.round((v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+};
+
+// Decodes a BlurHash (a DCT of a few cosine components) into RGBA pixels.
+function decodeBlurhash(hash: string, width: number, height: number) {
+  const sizeFlag = decodeBase83(hash[0] || '');
+  const numX = (sizeFlag % 9) + 1;
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  if (hash.length !== 4 + 2 * numX * numY) throw new Error("Invalid blurhash length.");
+
+  const maxValue = (decodeBase83(hash[1]) + 1) / 166;
+  const dc = decodeBase83(hash.substring(2, 6));
+  const colors = [[srgbToLinear(dc >> 16), srgbToLinear((dc >> 8) & 255), srgbToLinear(dc & 255)]];
+  for (let i = 1; i < numX * numY; i++) {
+    const value = decodeBase83(hash.substring(4 + i * 2, 6 + i * 2));
+    const quantized = [Math.floor(value / (19 * 19)), Math.floor(value / 19) % 19, value % 19];
+    colors.push(quantized.map(q => Math.sign(q - 9) * Math.pow((q - 9) / 9, 2) * maxValue));
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let j = 0; j < numY; j++) {
+        for (let i = 0; i < numX; i++) {
+          const basis = Math.cos(Math.PI * x * i / width) * Math.cos(Math.PI * y * j / height);
+          const color = colors[i + j * numX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const index = 4 * (x + y * width);
+      pixels[index] = linearToSrgb(r);
+      pixels[index + 1] = linearToSrgb(g);
+      pixels[index + 2] = linearToSrgb(b);
+      pixels[index + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+// iOS Safari gates orientation events behind a permission prompt that lib.dom doesn't declare.
+type DeviceOrientationEventIOS = typeof DeviceOrientationEvent & {
+    requestPermission?: () => Promise<PermissionState>;
+};
+
+// Per-pointer tracking state; slots are reused so uniform arrays keep a fixed size.
+interface PointerSlot {
+    id: number | null;
+    position: THREE.Vector2;
+    previous: THREE.Vector2; // position at the last physics step, start of the next stroke segment
+    smoothed: THREE.Vector2;
+    width: number;
+    active: boolean;
+}
+
+// A bead of water on the pane; mass is its squared radius in physics pixels.
+interface Droplet {
+    position: THREE.Vector2;
+    mass: number;
+    speed: number;
+    phase: number; // offsets the sideways meander of running beads
+    running: boolean;
+}
+
+// A single capsule queued by the imperative API, in physical canvas pixels.
+interface ScriptedStroke {
+    from: THREE.Vector2;
+    to: THREE.Vector2;
+    width: number;
+}
+
+// A polyline being traced over time by `wipePath`.
+interface PathAnimation {
+    points: THREE.Vector2[];
+    distances: number[]; // cumulative length at each point
+    width: number;
+    startTime: number;
+    duration: number;
+    emittedDistance: number;
+}
+
+// A decoded media source, plus the video element driving it if it is a video.
+interface LoadedMedia {
+    texture: THREE.Texture;
+    resolution: THREE.Vector2; // intrinsic size, before any GPU downscale
+    video: HTMLVideoElement | null;
+    animation: AnimatedImage | null;
+}
+
+// Playback state of the 'playlist' media type.
+interface PlaylistState {
+    items: ClarityMediaItem[];
+    index: number;
+    current: LoadedMedia;
+    slideStartTime: number;
+    next: LoadedMedia | null;
+    nextIndex: number;
+    isLoadingNext: boolean;
+    transitionStartTime: number | null;
+}
+
+// Downsampled physics state as read back from the GPU, rows bottom-up.
+interface PhysicsPixels {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+// --- WebGL Controller Class ---
+class ClarityController {
+    // Core THREE.js objects
+    private container: HTMLDivElement;
+    private canvas: HTMLCanvasElement;
+    private renderer: THREE.WebGLRenderer;
+    private camera: THREE.OrthographicCamera;
+    private planeGeometry: THREE.PlaneGeometry;
+
+    // Scenes and Materials
+    private mainScene: THREE.Scene;
+    private mainMaterial: THREE.ShaderMaterial;
+    private copyScene: THREE.Scene;
+    private copyMaterial: THREE.ShaderMaterial;
+    private physicsScene: THREE.Scene;
+    private physicsMaterial: THREE.ShaderMaterial;
+    private blurScene: THREE.Scene;
+    private blurMaterial: THREE.ShaderMaterial;
+    private kawaseDownScene: THREE.Scene;
+    private kawaseDownMaterial: THREE.ShaderMaterial;
+    private kawaseUpScene: THREE.Scene;
+    private kawaseUpMaterial: THREE.ShaderMaterial;
+    private scatterScene: THREE.Scene;
+    private scatterMaterial: THREE.ShaderMaterial;
+    private reduceScene: THREE.Scene;
+    private reduceMaterial: THREE.ShaderMaterial;
+    private dropletScene: THREE.Scene;
+    private dropletMaterial: THREE.ShaderMaterial;
+    private dropletGeometry: THREE.BufferGeometry;
+    private snapshotScene: THREE.Scene;
+    private snapshotMaterial: THREE.ShaderMaterial;
+    private restoreScene: THREE.Scene;
+    private restoreMaterial: THREE.ShaderMaterial;
+
+    // Framebuffers / Render Targets
+    private physicsRenderTargetA: THREE.WebGLRenderTarget;
+    private physicsRenderTargetB: THREE.WebGLRenderTarget;
+    private sceneRenderTarget: THREE.WebGLRenderTarget;
+    private blurRenderTargetA: THREE.WebGLRenderTarget;
+    private blurRenderTargetB: THREE.WebGLRenderTarget;
+    private kawaseRenderTargets: THREE.WebGLRenderTarget[] = []; // halving chain below the blur resolution
+    private reduceRenderTarget: THREE.WebGLRenderTarget;
+    private dropletRenderTarget: THREE.WebGLRenderTarget;
+    private reducePixels = new Uint8Array(REDUCE_SIZE * REDUCE_SIZE * 4);
+
+    // State
+    private props: Omit<ClarityProps, 'imageSource' | 'imageUrlLink' | 'videoSource' | 'videoUrlLink' | 'gifSource' | 'gifUrlLink' | 'maskSource' | 'maskUrlLink'>;
+    private pointers: PointerSlot[] = Array.from({ length: MAX_POINTERS }, () => ({
+        id: null,
+        position: new THREE.Vector2(-1000, -1000),
+        previous: new THREE.Vector2(-1000, -1000),
+        smoothed: new THREE.Vector2(-1000, -1000),
+        width: 1.0,
+        active: false,
+    }));
+    private scriptedStrokes: ScriptedStroke[] = [];
+    private pathAnimations: PathAnimation[] = [];
+    private fillAnimation: { kind: 'reveal' | 'frost', startTime: number, duration: number } | null = null;
+    private mediaState: { type: string, src: string, loading: boolean } = { type: '', src: '', loading: false };
+    private videoElement: HTMLVideoElement | null = null;
+    private playlist: PlaylistState | null = null;
+    private cameraStream: MediaStream | null = null; // opened by us, so ours to stop
+    private streamOverride: MediaStream | null = null; // set through the ref, wins over the prop
+    private animatedImage: AnimatedImage | null = null;
+    private isVideoWaitingForReveal = false;
+    private isVideoAutoplayBlocked = false; // muted or paused until the first user gesture
+    private isVideoPassFinished = false; // onVideoEnded fired for this pass; reset when playback restarts
+    private isMediaPaused = false;
+    private mediaPausedAt = 0;
+    private isCancelled = false;
+    private animationFrameId: number | null = null;
+    private loadMediaRequestId = 0;
+    private imageCandidateWidth = 0; // of the loaded srcset candidate; Infinity for a plain URL
+    private imageUpgradeTimer: ReturnType<typeof setTimeout> | null = null;
+    private mediaRetryKey = ''; // type and source the retry count belongs to
+    private mediaRetryCount = 0;
+    private mediaRetryTimer: ReturnType<typeof setTimeout> | null = null;
+    private maskSrc = '';
+    private loadMaskRequestId = 0;
+    private etchKey = '';
+    private etchRequestId = 0;
+    private contentResizeTimer: ReturnType<typeof setTimeout> | null = null;
+    private contentRedrawRequestId = 0;
+    private contentElement: HTMLElement | null = null;
+    private contentElementVersion = 0;
+    private contentObserver: MutationObserver | null = null;
+    private contentCaptureCanvas: HTMLCanvasElement | null = null;
+    private contentCaptureTimer: ReturnType<typeof setTimeout> | null = null;
+    
+    // Layout and Quality State
+    private layoutWidth = 0;
+    private layoutHeight = 0;
+    private pixelRatio = 1;
+    private downsampleFactor = 8;
+    private physicsEncoding: 'float' | 'float-nearest' | 'packed' = 'packed';
+    
+    // Initialization State
+    private hasSizedOnce = false;
+    private isMediaReady = false;
+
+    // Animated properties for smooth transitions
+    // Colors hold display sRGB components, the space the shaders composite in.
+    private targetProps = { refrostRate: 0.0030, brushSize: 0.30, blurRadius: 12, surfaceStrength: 0.5, frostOpacity: 1, ...DEFAULT_GRADE, ...DEFAULT_PHYSICS, frostTint: new THREE.Color(1, 1, 1), vignetteColor: new THREE.Color(0, 0, 0) };
+    private animatedProps = { refrostRate: 0.0030, brushSize: 0.30, blurRadius: 12, surfaceStrength: 0.5, frostOpacity: 1, ...DEFAULT_GRADE, ...DEFAULT_PHYSICS, frostTint: new THREE.Color(1, 1, 1), vignetteColor: new THREE.Color(0, 0, 0) };
+    
+    // Callbacks to React component
+    private onError: (error: ClarityMediaError | null) => void;
+    private onMediaLoaded: (resolution: THREE.Vector2 | null) => void;
+
+    // Resource Management State
+    private isPaused = false;
+    private isIdle = false;
+    private lastInteractionTime = Date.now();
+
+    // Fixed timestep simulation
+    private lastFrameTime = 0;
+    private stepAccumulator = 0;
+
+    // Reveal progress reporting
+    private revealProgress = 0;
+    private lastReportedProgress = -1;
+    private lastProgressCheckTime = 0;
+    private isAboveRevealThreshold = false;
+
+    // Droplets (positions in physics pixels, y up)
+    private droplets: Droplet[] = [];
+
+    // Gravity
+    private gravity = new THREE.Vector2(0, -1);
+    private targetGravity = new THREE.Vector2(0, -1);
+    private isListeningToOrientation = false;
+    private needsOrientationPermission = false;
+
+    // Persistence
+    private pendingRestore: THREE.Texture | null = null;
+    private isRestorePending = false;
+
+    // WebGL context loss
+    private isContextLost = false;
+    private lastSnapshot: PhysicsPixels | string | null = null; // re-uploaded when a lost context is restored
+    private lastSnapshotTime = 0; // Date.now() of lastSnapshot, compared against lastInteractionTime
+
+    // Constants
+    private static PHYSICS_DOWNSAMPLE_FACTOR = 4;
+    private static IDLE_TIMEOUT = 2000; // ms
+    private static IDLE_FRAME_INTERVAL = 100; // ms, for ~10fps
+    private static FIXED_STEP = 1000 / 60; // ms per physics step; all per-step constants are tuned for 60Hz
+    private static MAX_SUBSTEPS = 8; // per rendered frame, so a long stall doesn't trigger a catch-up spiral
+    private static PROP_SMOOTHING_RATE = 4.68; // 1/s, matches the old 0.075 lerp per 60Hz frame
+    private static POINTER_SMOOTHING_RATE = 6.32; // 1/s, matches the old 0.1 lerp per 60Hz frame
+    private static GAUSSIAN_PASS_RADIUS = 8; // texels a single Gaussian pass covers before adding iterations
+    private static MAX_GAUSSIAN_ITERATIONS = 4;
+    private static MAX_GAUSSIAN_TAPS = 16; // must match MAX_TAPS in blurFragmentShader
+    private static MAX_KAWASE_LEVELS = 6;
+    private static SURFACE_TIME_WRAP = 600; // s; rain restarts unnoticed, and mediump time stays precise
+    private static DEFAULT_SLIDE_DURATION = 5; // s, for stills without their own duration
+    private static BLURHASH_SIZE = 32; // px; the frost blurs it anyway
+    private static MAX_MEDIA_RETRIES = 3;
+    private static MEDIA_RETRY_DELAY = 1000; // ms, doubled on each attempt
+    private static SLIDE_TRANSITION_DURATION = 1200; // ms
+    private static REVEAL_PROGRESS_INTERVAL = 250; // ms between GPU readbacks
+    private static REVEAL_PROGRESS_EPSILON = 0.005;
+    private static REVEAL_THRESHOLD_HYSTERESIS = 0.05;
+    private static MAX_CONTENT_RASTER_SIZE = 2048;
+    private static CONTENT_RESIZE_DEBOUNCE = 150; // ms
+    private static CONTENT_CAPTURE_INTERVAL = 250; // ms between live content recaptures
+    private static SNAPSHOT_MAX_SIZE = 128; // px, longest side of a persisted physics snapshot
+    private static SNAPSHOT_REFRESH_INTERVAL = 2000; // ms between context-loss snapshots while interacting
+    private static MIN_TILT_GRAVITY = 0.15; // below this the device is roughly flat; use the static angle
+    private static DROPLET_SPAWN_WATER = 0.04; // minimum average cell water before beads condense
+    private static DROPLET_SPAWN_RATE = 40; // scales waterToDripConversion into a spawn probability
+    private static DROPLET_RUN_MASS = 9; // mass (radius^2 in physics px) at which a bead starts to run
+    private static DROPLET_EVAPORATION = 0.004; // mass lost per step by resting beads
+    private static DROPLET_ACCELERATION = 0.08; // px per step^2 along gravity
+
+    constructor(
+        container: HTMLDivElement,
+        onError: (error: ClarityMediaError | null) => void,
+        onMediaLoaded: (resolution: THREE.Vector2 | null) => void,
+        initialProps: ClarityProps
+    ) {
+        this.canvas = document.createElement('canvas');
+        this.canvas.style.width = '100%';
+        this.canvas.style.height = '100%';
+        this.canvas.style.display = 'block';
+        this.canvas.style.transition = 'opacity 0.3s';
+        // Stack above the live content layer, which is absolutely positioned.
+        this.canvas.style.position = 'relative';
+        this.canvas.style.zIndex = '1';
+        this.canvas.ariaLabel = 'Interactive frosted glass pane';
+        this.container = container;
+        container.appendChild(this.canvas);
+
+        this.onError = onError;
+        this.onMediaLoaded = onMediaLoaded;
+        this.props = initialProps;
+        
+        this.targetProps.refrostRate = initialProps.refrostRate;
+        this.targetProps.brushSize = initialProps.brushSize;
+        Object.assign(this.targetProps, DEFAULT_PHYSICS, initialProps.physics);
+        this.animatedProps = { ...this.targetProps };
+        
+        this.setFrostQuality(initialProps.frostQuality);
+        this._initQuality(initialProps.quality);
+        this._initRendererAndCamera();
+        this._initGeometry();
+        this._initMaterials();
+        this._initScenes();
+        this._initRenderTargets();
+        this._initPointerEvents();
+        this._initContextLossHandling();
+        this._initPersistence();
+        this._updateGravitySource();
+        this.gravity.copy(this.targetGravity);
+    }
+    
+    private _initRendererAndCamera() {
+        this.renderer = new THREE.WebGLRenderer({
+            canvas: this.canvas,
+            antialias: false,
+            alpha: true,
+            powerPreference: 'low-power',
+        });
+        this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+        this.renderer.setPixelRatio(this.pixelRatio);
+        this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+        this.physicsEncoding = this._detectPhysicsEncoding();
+    }
+
+    // Prefer float physics, filtered by hand when OES_texture_float_linear is missing, then
+    // packed RGBA8. Half float is skipped: its ~4.9e-4 spacing below 1.0 is coarser than the
+    // slowest refrost rates, so clear would stall just short of fully frosted.
+    private _detectPhysicsEncoding(): 'float' | 'float-nearest' | 'packed' {
+        const extensions = this.renderer.extensions;
+        if (!extensions.has('EXT_color_buffer_float')) return 'packed';
+        return extensions.has('OES_texture_float_linear') ? 'float' : 'float-nearest';
+    }
+
+    private _getPhysicsDefines(): Record<string, string> {
+        if (this.physicsEncoding === 'packed') return { PHYSICS_PACKED: '' };
+        return this.physicsEncoding === 'float-nearest' ? { PHYSICS_NEAREST: '' } : {};
+    }
+
+    private _initGeometry() {
+        this.planeGeometry = new THREE.PlaneGeometry(2, 2);
+    }
+    
+    private _initMaterials() {
+        this.mainMaterial = new THREE.ShaderMaterial({ 
+            vertexShader: Shaders.vertexShader, 
+            fragmentShader: Shaders.mainFragmentShader, 
+            defines: this._getPhysicsDefines(),
+            uniforms: { 
+                uResolution: { value: new THREE.Vector2() }, 
+                uSceneTexture: { value: null }, 
                 uPhysicsState: { value: null }, 
                 uBlurredMap: { value: null }, 
-                uMouse: { value: new THREE.Vector2() }, 
+                uDroplets: { value: null },
+                uHasDroplets: { value: 0.0 },
+                uBrushPoints: { value: Array.from({ length: MAX_POINTERS }, () => new THREE.Vector2()) },
+                uBrushWidths: { value: new Array(MAX_POINTERS).fill(0.0) },
                 uBrushSize: { value: 120.0 },
                 uChromaticAberration: { value: this.props.chromaticAberration },
                 uReflectivity: { value: this.props.reflectivity },
                 uBlurBrightness: { value: this.props.blurBrightness },
+                uRevealAlpha: { value: 0.0 },
+                uFrostOpacity: { value: this.animatedProps.frostOpacity },
+                uSurfacePattern: { value: 0 },
+                uSurfaceStrength: { value: this.animatedProps.surfaceStrength },
+                uTime: { value: 0.0 },
+                uFrostTint: { value: this.animatedProps.frostTint },
+                uFrostTintOpacity: { value: this.animatedProps.frostTintOpacity },
+                uFrostSaturation: { value: this.animatedProps.frostSaturation },
+                uFrostContrast: { value: this.animatedProps.frostContrast },
+                uRevealBrightness: { value: this.animatedProps.revealBrightness },
+                uRevealSaturation: { value: this.animatedProps.revealSaturation },
+                uRevealContrast: { value: this.animatedProps.revealContrast },
+                uVignetteColor: { value: this.animatedProps.vignetteColor },
+                uVignetteStrength: { value: this.animatedProps.vignetteStrength },
             },
         });
         
-        this.copyMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.copyFragmentShader, uniforms: { uTexture: { value: null }, uResolution: { value: new THREE.Vector2() }, uImageResolution: { value: new THREE.Vector2() } } });
-        this.physicsMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.physicsFragmentShader, uniforms: { uPreviousFrame: { value: null }, uResolution: { value: new THREE.Vector2() }, uMouse: { value: new THREE.Vector2() }, uBrushSize: { value: 120.0 }, uRefrostRate: { value: this.animatedProps.refrostRate }, uIsMouseActive: { value: 0.0 } } });
-        this.blurMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.blurFragmentShader, uniforms: { uInput: { value: null }, uResolution: { value: new THREE.Vector2() }, uDirection: { value: new THREE.Vector2() } } });
+        this.copyMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.copyFragmentShader, uniforms: { uTexture: { value: null }, uNextTexture: { value: null }, uResolution: { value: new THREE.Vector2() }, uImageResolution: { value: new THREE.Vector2() }, uNextImageResolution: { value: new THREE.Vector2() }, uTransition: { value: 0.0 }, uTransitionMode: { value: 0 }, uPixelRatio: { value: this.pixelRatio }, uFitMode: { value: 0 }, uFocalPoint: { value: new THREE.Vector2(0.5, 0.5) }, uZoom: { value: 1.0 }, uPan: { value: new THREE.Vector2() }, uMirror: { value: 0.0 } } });
+        this.physicsMaterial = new THREE.ShaderMaterial({
+            vertexShader: Shaders.vertexShader,
+            fragmentShader: Shaders.physicsFragmentShader,
+            defines: this._getPhysicsDefines(),
+            uniforms: {
+                uPreviousFrame: { value: null },
+                uResolution: { value: new THREE.Vector2() },
+                uBrushPoints: { value: Array.from({ length: MAX_BRUSHES }, () => new THREE.Vector2()) },
+                uBrushPrevPoints: { value: Array.from({ length: MAX_BRUSHES }, () => new THREE.Vector2()) },
+                uBrushWidths: { value: new Array(MAX_BRUSHES).fill(0.0) },
+                uBrushSize: { value: 120.0 },
+                uRefrostRate: { value: this.animatedProps.refrostRate },
+                uRevealLevel: { value: 0.0 },
+                uFrostLevel: { value: 0.0 },
+                uMask: { value: null },
+                uHasMask: { value: 0.0 },
+                uEtch: { value: null },
+                uEtchMode: { value: 0.0 },
+                uDripRetention: { value: this.animatedProps.dripRetention },
+                uWaterEvaporation: { value: this.animatedProps.waterEvaporation },
+                uDripClearFactor: { value: this.animatedProps.dripClearFactor },
+                uFrostToWaterConversion: { value: this.animatedProps.frostToWaterConversion },
+                uTrailStarts: { value: Array.from({ length: MAX_TRAILS }, () => new THREE.Vector2()) },
+                uTrailEnds: { value: Array.from({ length: MAX_TRAILS }, () => new THREE.Vector2()) },
+                uTrailRadii: { value: new Array(MAX_TRAILS).fill(0.0) },
+            },
+        });
+        this.blurMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.blurFragmentShader, uniforms: { uInput: { value: null }, uResolution: { value: new THREE.Vector2() }, uDirection: { value: new THREE.Vector2() }, uRadius: { value: 0.0 }, uTaps: { value: 1 } } });
+        this.kawaseDownMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.kawaseDownFragmentShader, uniforms: { uInput: { value: null }, uTexelSize: { value: new THREE.Vector2() }, uOffset: { value: 1.0 } } });
+        this.kawaseUpMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.kawaseUpFragmentShader, uniforms: { uInput: { value: null }, uTexelSize: { value: new THREE.Vector2() }, uOffset: { value: 1.0 } } });
+        this.scatterMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.scatterFragmentShader, uniforms: { uInput: { value: null }, uResolution: { value: new THREE.Vector2() }, uRadius: { value: 0.0 } } });
+        this.reduceMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.reduceFragmentShader, defines: this._getPhysicsDefines(), uniforms: { uPhysicsState: { value: null } } });
+        this.snapshotMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.snapshotFragmentShader, defines: this._getPhysicsDefines(), uniforms: { uPhysicsState: { value: null } } });
+        this.restoreMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.vertexShader, fragmentShader: Shaders.restoreFragmentShader, defines: this._getPhysicsDefines(), uniforms: { uSnapshot: { value: null } } });
+        this.dropletMaterial = new THREE.ShaderMaterial({ vertexShader: Shaders.dropletVertexShader, fragmentShader: Shaders.dropletFragmentShader, uniforms: { uPixelScale: { value: 1.0 } }, depthTest: false, depthWrite: false });
     }
     
     private _initScenes() {
@@ -333,54 +1633,381 @@ class ClarityController {
         this.physicsScene.add(new THREE.Mesh(this.planeGeometry, this.physicsMaterial));
         this.blurScene = new THREE.Scene();
         this.blurScene.add(new THREE.Mesh(this.planeGeometry, this.blurMaterial));
+        this.kawaseDownScene = new THREE.Scene();
+        this.kawaseDownScene.add(new THREE.Mesh(this.planeGeometry, this.kawaseDownMaterial));
+        this.kawaseUpScene = new THREE.Scene();
+        this.kawaseUpScene.add(new THREE.Mesh(this.planeGeometry, this.kawaseUpMaterial));
+        this.scatterScene = new THREE.Scene();
+        this.scatterScene.add(new THREE.Mesh(this.planeGeometry, this.scatterMaterial));
+        this.reduceScene = new THREE.Scene();
+        this.reduceScene.add(new THREE.Mesh(this.planeGeometry, this.reduceMaterial));
+        this.snapshotScene = new THREE.Scene();
+        this.snapshotScene.add(new THREE.Mesh(this.planeGeometry, this.snapshotMaterial));
+        this.restoreScene = new THREE.Scene();
+        this.restoreScene.add(new THREE.Mesh(this.planeGeometry, this.restoreMaterial));
+        this.dropletGeometry = new THREE.BufferGeometry();
+        this.dropletGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_DROPLETS * 3), 3).setUsage(THREE.DynamicDrawUsage));
+        this.dropletGeometry.setAttribute('aRadius', new THREE.BufferAttribute(new Float32Array(MAX_DROPLETS), 1).setUsage(THREE.DynamicDrawUsage));
+        this.dropletGeometry.setDrawRange(0, 0);
+        this.dropletScene = new THREE.Scene();
+        const dropletPoints = new THREE.Points(this.dropletGeometry, this.dropletMaterial);
+        dropletPoints.frustumCulled = false;
+        this.dropletScene.add(dropletPoints);
     }
     
     private _initRenderTargets() {
         const options = { minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, format: THREE.RGBAFormat, type: THREE.UnsignedByteType, stencilBuffer: false };
-        this.physicsRenderTargetA = new THREE.WebGLRenderTarget(1, 1, options);
-        this.physicsRenderTargetB = new THREE.WebGLRenderTarget(1, 1, options);
+        const isFiltered = this.physicsEncoding === 'float';
+        const physicsOptions = {
+            ...options,
+            type: this.physicsEncoding === 'packed' ? THREE.UnsignedByteType : THREE.FloatType,
+            minFilter: isFiltered ? THREE.LinearFilter : THREE.NearestFilter,
+            magFilter: isFiltered ? THREE.LinearFilter : THREE.NearestFilter,
+        };
+        this.physicsRenderTargetA = new THREE.WebGLRenderTarget(1, 1, physicsOptions);
+        this.physicsRenderTargetB = new THREE.WebGLRenderTarget(1, 1, physicsOptions);
+        console.log(`Clarity: Using ${this.physicsEncoding} physics render targets.`);
         this.sceneRenderTarget = new THREE.WebGLRenderTarget(1, 1, options);
         this.blurRenderTargetA = new THREE.WebGLRenderTarget(1, 1, options);
         this.blurRenderTargetB = new THREE.WebGLRenderTarget(1, 1, options);
+        this.kawaseRenderTargets = Array.from({ length: ClarityController.MAX_KAWASE_LEVELS }, () => new THREE.WebGLRenderTarget(1, 1, options));
+        this.reduceRenderTarget = new THREE.WebGLRenderTarget(REDUCE_SIZE, REDUCE_SIZE, options);
+        this.dropletRenderTarget = new THREE.WebGLRenderTarget(1, 1, options);
+    }
+
+    private _disposeRenderTargets() {
+        this.physicsRenderTargetA.dispose();
+        this.physicsRenderTargetB.dispose();
+        this.sceneRenderTarget.dispose();
+        this.blurRenderTargetA.dispose();
+        this.blurRenderTargetB.dispose();
+        this.kawaseRenderTargets.forEach(target => target.dispose());
+        this.reduceRenderTarget.dispose();
+        this.dropletRenderTarget.dispose();
     }
 
     private _initPointerEvents() {
-        this.canvas.addEventListener('mousemove', this._handleMouseMove);
-        this.canvas.addEventListener('mouseleave', this._handleMouseLeave);
-        this.canvas.addEventListener('touchmove', this._handleTouchMove, { passive: true });
-        this.canvas.addEventListener('touchend', this._handleTouchEnd);
-        this.canvas.addEventListener('touchcancel', this._handleTouchEnd);
+        // Listen on the container so wiping still works when the canvas lets clicks
+        // through to live content, and let touch and pen drags reach us as pointer
+        // events instead of scrolling the page.
+        this.container.style.touchAction = 'none';
+        this.container.addEventListener('pointerdown', this._handlePointerDown);
+        this.container.addEventListener('pointermove', this._handlePointerMove);
+        this.container.addEventListener('pointerup', this._handlePointerUp);
+        this.container.addEventListener('pointercancel', this._handlePointerRelease);
+        this.container.addEventListener('pointerleave', this._handlePointerRelease);
     }
     
-    public setProps(props: Omit<ClarityProps, 'quality' | 'frostQuality' | 'imageSource' | 'imageUrlLink' | 'videoSource' | 'videoUrlLink' | 'gifSource' | 'gifUrlLink'>) {
+    public setProps(props: Omit<ClarityProps, 'quality' | 'frostQuality' | 'imageSource' | 'imageUrlLink' | 'videoSource' | 'videoUrlLink' | 'gifSource' | 'gifUrlLink' | 'maskSource' | 'maskUrlLink'>) {
+        const startTimeChanged = props.videoStartTime !== this.props.videoStartTime;
         this.props = { ...this.props, ...props };
 
         if (this.videoElement) {
-            this.videoElement.muted = !this.props.videoSound;
+            // Unmuting without a user gesture would make the browser pause the video.
+            this.videoElement.muted = !this.props.videoSound || this.isVideoAutoplayBlocked;
             this.videoElement.volume = this.props.videoVolume;
+            if (this.mediaState.type === 'video') {
+                this.videoElement.playbackRate = this.props.videoPlaybackRate;
+                if (startTimeChanged) this.videoElement.currentTime = this._getVideoRange(this.videoElement).start;
+            }
         }
+        if (this.isVideoWaitingForReveal && this.props.videoAutoplay !== 'reveal') this._startRevealedVideo();
 
         this.targetProps.refrostRate = props.refrostRate;
         this.targetProps.brushSize = props.brushSize;
+        this.targetProps.blurRadius = props.blurRadius;
+        this.targetProps.surfaceStrength = props.surfaceStrength;
+        // An opaque background keeps the frost fully opaque; toggling crossfades through this target.
+        this.targetProps.frostOpacity = props.transparentBackground ? props.frostOpacity : 1;
+        for (const key of Object.keys(DEFAULT_GRADE) as (keyof typeof DEFAULT_GRADE)[]) {
+            this.targetProps[key] = props[key];
+        }
+        this._setColor(this.targetProps.frostTint, props.frostTint);
+        this._setColor(this.targetProps.vignetteColor, props.vignetteColor);
+        Object.assign(this.targetProps, DEFAULT_PHYSICS, props.physics);
         if (this.mainMaterial) {
             this.mainMaterial.uniforms.uChromaticAberration.value = props.chromaticAberration;
             this.mainMaterial.uniforms.uReflectivity.value = props.reflectivity;
             this.mainMaterial.uniforms.uBlurBrightness.value = props.blurBrightness;
+            this.mainMaterial.uniforms.uSurfacePattern.value = Math.max(0, SURFACE_PATTERNS.indexOf(props.surfacePattern));
         }
+        this._applyContentMode();
+        this._updateFitUniforms();
+        this._updateGravitySource();
         this.loadMedia(props.mediaType, props.imageUrl, props.videoUrl, props.gifUrl);
+        this.loadMask(props.maskUrl);
+        this._updateEtch();
     }
     
-    public updatePointer(x: number, y: number, isActive: boolean) {
-        this.isMouseActive = isActive;
-        if (isActive) { 
-            this.mousePosition.set(x, y); 
-            this.lastInteractionTime = Date.now();
+    private _updateFitUniforms() {
+        const uniforms = this.copyMaterial.uniforms;
+        // Text, SVG and live content are rasterized at the canvas size already.
+        const isMedia = ['image', 'video', 'gif', 'playlist', 'camera'].includes(this.props.mediaType);
+        uniforms.uFitMode.value = isMedia ? Math.max(0, FIT_MODES.indexOf(this.props.objectFit)) : 0;
+        uniforms.uFocalPoint.value.set(isMedia ? this.props.focalX : 0.5, isMedia ? this.props.focalY : 0.5);
+        uniforms.uMirror.value = this.props.mediaType === 'camera' && this.props.cameraMirror ? 1.0 : 0.0;
+        if (!this._isKenBurnsActive()) {
+            uniforms.uZoom.value = 1.0;
+            uniforms.uPan.value.set(0, 0);
         }
     }
 
-    private _initQuality(quality: ClarityProps['quality']) {
-        switch (quality) {
-            case 'auto':
+    private _isKenBurnsActive() {
+        return this.props.kenBurns && (this.props.mediaType === 'image' || this.props.mediaType === 'playlist');
+    }
+
+    // A slow zoom breathes in and out while the view drifts on a longer, offset cycle.
+    private _updateKenBurns() {
+        if (!this._isKenBurnsActive()) return;
+        const period = Math.max(1, this.props.kenBurnsDuration) * 1000;
+        const phase = (performance.now() % (period * 4)) / period * Math.PI * 2;
+        const zoom = 1 + (Math.max(1, this.props.kenBurnsZoom) - 1) * (0.5 - 0.5 * Math.cos(phase));
+        // Keep the drift inside the margin the zoom has cropped away. The zoom is centred on the
+        // focal point, so that margin is split unevenly on each side of it (y runs bottom-up).
+        const margin = 1 - 1 / zoom;
+        const focal = this.copyMaterial.uniforms.uFocalPoint.value;
+        const focalX = focal.x;
+        const focalY = 1 - focal.y;
+        this.copyMaterial.uniforms.uZoom.value = zoom;
+        this.copyMaterial.uniforms.uPan.value.set(
+            THREE.MathUtils.clamp(Math.sin(phase * 0.5) * margin * 0.4, -focalX * margin, (1 - focalX) * margin),
+            THREE.MathUtils.clamp(Math.cos(phase * 0.75) * margin * 0.4, -focalY * margin, (1 - focalY) * margin),
+        );
+    }
+
+    // Framer hands colors over as CSS strings. They are read without conversion to linear,
+    // since the shaders blend in display sRGB.
+    private _setColor(target: THREE.Color, value: string) {
+        if (value) target.setStyle(value, THREE.LinearSRGBColorSpace);
+    }
+
+    public updatePointer(x: number, y: number, isActive: boolean, pointerId = 0, pressure = 0.5) {
+        let slot = this.pointers.find(p => p.id === pointerId);
+        if (!isActive) {
+            if (slot) {
+                slot.active = false;
+                slot.id = null;
+            }
+            return;
+        }
+
+        if (!slot) {
+            slot = this.pointers.find(p => p.id === null);
+            // All slots are taken; extra fingers are ignored until one lifts.
+            if (!slot) return;
+            slot.id = pointerId;
+            slot.previous.set(x, y);
+            slot.smoothed.set(x, y);
+        }
+        slot.active = true;
+        slot.position.set(x, y);
+        // Pointer Events report 0.5 when the hardware has no pressure support, which maps to 1x.
+        slot.width = this.props.pressureSensitivity ? 0.5 + pressure : 1.0;
+        this.lastInteractionTime = Date.now();
+    }
+
+    private _hasActivePointers() {
+        return this.pointers.some(p => p.active);
+    }
+
+    // --- Gravity ---
+
+    private _getStaticGravity() {
+        // 0deg runs drips straight down the pane, 90deg runs them to the right.
+        const angle = THREE.MathUtils.degToRad(this.props.gravityAngle);
+        return new THREE.Vector2(Math.sin(angle), -Math.cos(angle));
+    }
+
+    private _updateGravitySource() {
+        if (!this.props.tiltGravity) {
+            this._stopOrientationListener();
+            this.needsOrientationPermission = false;
+            this.targetGravity.copy(this._getStaticGravity());
+            return;
+        }
+        if (this.isListeningToOrientation) return;
+
+        this.targetGravity.copy(this._getStaticGravity());
+        if (typeof DeviceOrientationEvent === 'undefined') {
+            console.log("Clarity: Device orientation unavailable; using the static gravity angle.");
+            return;
+        }
+        // iOS only grants sensor access from inside a user gesture, so wait for the next tap.
+        if (typeof (DeviceOrientationEvent as DeviceOrientationEventIOS).requestPermission === 'function') {
+            this.needsOrientationPermission = true;
+        } else {
+            this._startOrientationListener();
+        }
+    }
+
+    private _requestOrientationPermission() {
+        this.needsOrientationPermission = false;
+        const orientationEvent = DeviceOrientationEvent as DeviceOrientationEventIOS;
+        if (!orientationEvent.requestPermission) return;
+        orientationEvent.requestPermission()
+            .then((state) => {
+                if (state === 'granted' && this.props.tiltGravity && !this.isCancelled) {
+                    this._startOrientationListener();
+                } else {
+                    console.log("Clarity: Device orientation permission denied; using the static gravity angle.");
+                }
+            })
+            .catch(() => console.log("Clarity: Device orientation permission failed; using the static gravity angle."));
+    }
+
+    private _startOrientationListener() {
+        if (this.isListeningToOrientation) return;
+        window.addEventListener('deviceorientation', this._handleDeviceOrientation);
+        this.isListeningToOrientation = true;
+    }
+
+    private _stopOrientationListener() {
+        if (!this.isListeningToOrientation) return;
+        window.removeEventListener('deviceorientation', this._handleDeviceOrientation);
+        this.isListeningToOrientation = false;
+    }
+
+    private _handleDeviceOrientation = (event: DeviceOrientationEvent) => {
+        if (event.beta === null || event.gamma === null) return;
+
+        // Project world gravity onto the screen plane (device x right, y up).
+        const beta = THREE.MathUtils.degToRad(event.beta);
+        const gamma = THREE.MathUtils.degToRad(event.gamma);
+        const deviceGravity = new THREE.Vector2(Math.cos(beta) * Math.sin(gamma), -Math.sin(beta));
+
+        // Account for the screen being rotated relative to the device's natural orientation.
+        // Older iOS only reports the deprecated window.orientation.
+        const legacyAngle = 'orientation' in window ? Number(window.orientation) : 0;
+        const screenAngle = THREE.MathUtils.degToRad(screen.orientation?.angle ?? legacyAngle);
+        deviceGravity.rotateAround(new THREE.Vector2(0, 0), screenAngle);
+
+        if (deviceGravity.length() < ClarityController.MIN_TILT_GRAVITY) {
+            this.targetGravity.copy(this._getStaticGravity());
+        } else {
+            this.targetGravity.copy(deviceGravity.normalize());
+        }
+    };
+
+    // --- Programmatic control ---
+
+    public revealAll(durationMs = 600) {
+        this.fillAnimation = { kind: 'reveal', startTime: performance.now(), duration: Math.max(0, durationMs) };
+        this.lastInteractionTime = Date.now();
+    }
+
+    public frostAll(durationMs = 600) {
+        this.fillAnimation = { kind: 'frost', startTime: performance.now(), duration: Math.max(0, durationMs) };
+        this.lastInteractionTime = Date.now();
+    }
+
+    public reset() {
+        this.fillAnimation = null;
+        this.scriptedStrokes = [];
+        this.pathAnimations = [];
+        this.droplets = [];
+
+        const oldRenderTarget = this.renderer.getRenderTarget();
+        const oldClearColor = this.renderer.getClearColor(new THREE.Color());
+        const oldClearAlpha = this.renderer.getClearAlpha();
+        this.renderer.setClearColor(0x000000, 0);
+        for (const target of [this.physicsRenderTargetA, this.physicsRenderTargetB]) {
+            this.renderer.setRenderTarget(target);
+            this.renderer.clear();
+        }
+        this.renderer.setRenderTarget(oldRenderTarget);
+        this.renderer.setClearColor(oldClearColor, oldClearAlpha);
+        this.lastInteractionTime = Date.now();
+    }
+
+    /** Wipes a circle at (x, y) in CSS pixels from the component's top-left corner. */
+    public wipeAt(x: number, y: number, radius?: number) {
+        const point = this._layoutToPhysical(x, y);
+        this.scriptedStrokes.push({ from: point, to: point.clone(), width: this._radiusToBrushWidth(radius) });
+        this.lastInteractionTime = Date.now();
+    }
+
+    /** Traces a stroke through the given points, drawn over `durationMs` (instantly when 0). */
+    public wipePath(points: { x: number, y: number }[], durationMs = 0, radius?: number) {
+        if (points.length === 0) return;
+        const physicalPoints = points.map(p => this._layoutToPhysical(p.x, p.y));
+        const width = this._radiusToBrushWidth(radius);
+
+        if (durationMs <= 0 || physicalPoints.length === 1) {
+            for (let i = 0; i < physicalPoints.length; i++) {
+                const from = physicalPoints[Math.max(0, i - 1)];
+                this.scriptedStrokes.push({ from, to: physicalPoints[i], width });
+            }
+        } else {
+            const distances = [0];
+            for (let i = 1; i < physicalPoints.length; i++) {
+                distances.push(distances[i - 1] + physicalPoints[i].distanceTo(physicalPoints[i - 1]));
+            }
+            this.pathAnimations.push({ points: physicalPoints, distances, width, startTime: performance.now(), duration: durationMs, emittedDistance: 0 });
+        }
+        this.lastInteractionTime = Date.now();
+    }
+
+    private _layoutToPhysical(x: number, y: number) {
+        return new THREE.Vector2(x * this.pixelRatio, (this.layoutHeight - y) * this.pixelRatio);
+    }
+
+    private _radiusToBrushWidth(radius?: number) {
+        const brushPixelSize = this.mainMaterial.uniforms.uBrushSize.value;
+        if (radius === undefined || brushPixelSize <= 0) return 1.0;
+        return Math.max(0, radius * this.pixelRatio) / brushPixelSize;
+    }
+
+    private _pointAlongPath(animation: PathAnimation, distance: number) {
+        const { points, distances } = animation;
+        for (let i = 1; i < points.length; i++) {
+            if (distance <= distances[i]) {
+                const segmentLength = distances[i] - distances[i - 1];
+                const t = segmentLength > 0 ? (distance - distances[i - 1]) / segmentLength : 1;
+                return points[i - 1].clone().lerp(points[i], t);
+            }
+        }
+        return points[points.length - 1].clone();
+    }
+
+    private _advanceScriptedAnimations(now: number) {
+        this.pathAnimations = this.pathAnimations.filter(animation => {
+            const total = animation.distances[animation.distances.length - 1];
+            const progress = Math.min(1, (now - animation.startTime) / animation.duration);
+            const targetDistance = total * progress;
+
+            // Break the newly covered stretch at path vertices so corners stay sharp.
+            let from = this._pointAlongPath(animation, animation.emittedDistance);
+            animation.distances.forEach((distance, i) => {
+                if (distance > animation.emittedDistance && distance < targetDistance) {
+                    this.scriptedStrokes.push({ from, to: animation.points[i].clone(), width: animation.width });
+                    from = animation.points[i].clone();
+                }
+            });
+            this.scriptedStrokes.push({ from, to: this._pointAlongPath(animation, targetDistance), width: animation.width });
+            animation.emittedDistance = targetDistance;
+
+            return progress < 1;
+        });
+
+        let revealLevel = 0.0;
+        let frostLevel = 0.0;
+        if (this.fillAnimation) {
+            const { kind, startTime, duration } = this.fillAnimation;
+            const progress = duration > 0 ? Math.min(1, (now - startTime) / duration) : 1;
+            if (kind === 'reveal') revealLevel = progress; else frostLevel = progress;
+            if (progress >= 1) this.fillAnimation = null;
+        }
+        this.physicsMaterial.uniforms.uRevealLevel.value = revealLevel;
+        this.physicsMaterial.uniforms.uFrostLevel.value = frostLevel;
+    }
+
+    private _hasScriptedWork() {
+        return this.fillAnimation !== null || this.scriptedStrokes.length > 0 || this.pathAnimations.length > 0;
+    }
+
+    private _initQuality(quality: ClarityProps['quality']) {
+        switch (quality) {
+            case 'auto':
                 this.pixelRatio = Math.min(window.devicePixelRatio, 2);
                 break;
             case 'ultra':
@@ -418,15 +2045,22 @@ class ClarityController {
         }
         
         if (this.layoutWidth > 0 && this.layoutHeight > 0) {
-            const rtWidth = this.layoutWidth * this.pixelRatio;
-            const rtHeight = this.layoutHeight * this.pixelRatio;
-            const downsampledWidth = Math.max(1, Math.round(rtWidth / this.downsampleFactor));
-            const downsampledHeight = Math.max(1, Math.round(rtHeight / this.downsampleFactor));
-            this.blurMaterial.uniforms.uResolution.value.set(downsampledWidth, downsampledHeight);
-            this.blurRenderTargetA.setSize(downsampledWidth, downsampledHeight);
-            this.blurRenderTargetB.setSize(downsampledWidth, downsampledHeight);
+            this._resizeBlurTargets(this.layoutWidth * this.pixelRatio, this.layoutHeight * this.pixelRatio);
         }
     }
+
+    private _resizeBlurTargets(rtWidth: number, rtHeight: number) {
+        const downsampledWidth = Math.max(1, Math.round(rtWidth / this.downsampleFactor));
+        const downsampledHeight = Math.max(1, Math.round(rtHeight / this.downsampleFactor));
+        this.blurMaterial.uniforms.uResolution.value.set(downsampledWidth, downsampledHeight);
+        this.scatterMaterial.uniforms.uResolution.value.set(downsampledWidth, downsampledHeight);
+        this.blurRenderTargetA.setSize(downsampledWidth, downsampledHeight);
+        this.blurRenderTargetB.setSize(downsampledWidth, downsampledHeight);
+        this.kawaseRenderTargets.forEach((target, i) => {
+            const scale = 2 ** (i + 1);
+            target.setSize(Math.max(1, Math.round(downsampledWidth / scale)), Math.max(1, Math.round(downsampledHeight / scale)));
+        });
+    }
     
     public setLayoutSize = (width: number, height: number) => {
         if (!width || !height || width <= 0 || height <= 0) {
@@ -436,112 +2070,1245 @@ class ClarityController {
         this.layoutWidth = width;
         this.layoutHeight = height;
 
-        this.renderer.setSize(width, height, false);
-        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(width, height, false);
+        this.camera.updateProjectionMatrix();
+
+        const rtWidth = width * this.pixelRatio;
+        const rtHeight = height * this.pixelRatio;
+
+        const physicsWidth = Math.max(1, Math.round(rtWidth / ClarityController.PHYSICS_DOWNSAMPLE_FACTOR));
+        const physicsHeight = Math.max(1, Math.round(rtHeight / ClarityController.PHYSICS_DOWNSAMPLE_FACTOR));
+
+        this.mainMaterial.uniforms.uResolution.value.set(rtWidth, rtHeight);
+        this.copyMaterial.uniforms.uResolution.value.set(rtWidth, rtHeight);
+        this.copyMaterial.uniforms.uPixelRatio.value = this.pixelRatio;
+        this.physicsMaterial.uniforms.uResolution.value.set(physicsWidth, physicsHeight);
+        
+        this.physicsRenderTargetA.setSize(physicsWidth, physicsHeight);
+        this.physicsRenderTargetB.setSize(physicsWidth, physicsHeight);
+        this.sceneRenderTarget.setSize(rtWidth, rtHeight);
+        this._resizeBlurTargets(rtWidth, rtHeight);
+        // Droplets are rendered at half resolution; their lenses are small and soft.
+        this.dropletRenderTarget.setSize(Math.max(1, Math.round(rtWidth / 2)), Math.max(1, Math.round(rtHeight / 2)));
+        this.dropletMaterial.uniforms.uPixelScale.value = ClarityController.PHYSICS_DOWNSAMPLE_FACTOR / 2;
+        // Resizing discards the physics state, so beads would float over nothing.
+        this.droplets = [];
+        
+        this._updateBrushUniforms(rtWidth, rtHeight);
+        this._scheduleContentRasterize();
+        this._scheduleImageUpgrade();
+
+        if (!this.hasSizedOnce) {
+            console.log(`Clarity: Canvas sized to ${width}x${height} (Render targets: ${rtWidth}x${rtHeight}).`);
+            this.hasSizedOnce = true;
+            this._tryStartAnimation();
+        }
+    }
+    
+    public async loadMedia(mediaType: ClarityProps['mediaType'], imageUrl?: string, videoUrl?: string, gifUrl?: string) {
+        const type = mediaType;
+        const src = type === 'image' ? this._getImageKey(imageUrl)
+            : type === 'video' ? videoUrl
+            : type === 'gif' ? gifUrl
+            : type === 'playlist' ? this._getPlaylistKey()
+            : type === 'camera' ? this._getCameraKey()
+            : this._getContentKey(type);
+        
+        if (!src || (this.mediaState.type === type && this.mediaState.src === src)) return;
+        
+        this.isMediaReady = false;
+        this.loadMediaRequestId++;
+        const currentRequestId = this.loadMediaRequestId;
+        this.mediaState = { loading: true, type, src };
+        this._clearMediaRetry();
+        const retryKey = `${type}:${src}`;
+        if (retryKey !== this.mediaRetryKey) {
+            this.mediaRetryKey = retryKey;
+            this.mediaRetryCount = 0;
+        }
+        this.onError(null);
+        this.onMediaLoaded(null);
+        this._cleanupPreviousMedia();
+        const posterUrl = type === 'video' ? this.props.videoPoster : undefined;
+        const isMedia = ['image', 'video', 'gif', 'playlist', 'camera'].includes(type);
+        if (isMedia && (posterUrl || this.props.placeholder !== 'none')) {
+            this._showPlaceholder(currentRequestId, posterUrl);
+        }
+
+        try {
+            let result: { texture: THREE.Texture, resolution: THREE.Vector2 };
+            let shouldResize = false;
+            let animation: AnimatedImage | null = null;
+            let candidateWidth = Infinity;
+
+            if (type === 'image') {
+                const image = await this._loadResponsiveImage(imageUrl);
+                candidateWidth = image.candidateWidth;
+                result = image;
+                this.onMediaLoaded(result.resolution.clone());
+                shouldResize = true;
+            } else if (type === 'video' && videoUrl) {
+                const waitForReveal = this.props.videoAutoplay === 'reveal' && !this.isAboveRevealThreshold;
+                const video = await this._loadVideoTexture(videoUrl, !waitForReveal && !this.isMediaPaused, this.props.videoStartTime);
+                // Checked before the element is adopted, so a stale load doesn't keep playing unseen.
+                if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
+                    this._releaseVideo(video.video);
+                    video.texture.dispose();
+                    return;
+                }
+                this.videoElement = video.video;
+                // Looping is handled here rather than natively, so the loop honours the start point.
+                video.video.loop = false;
+                video.video.playbackRate = this.props.videoPlaybackRate;
+                this._attachVideoEvents(video.video);
+                this.isVideoWaitingForReveal = waitForReveal;
+                if (this.isAboveRevealThreshold) this._startRevealedVideo();
+                result = video;
+                this.onMediaLoaded(result.resolution.clone());
+            } else if (type === 'gif' && gifUrl) {
+                const gif = await this._loadGifTexture(gifUrl);
+                animation = gif.animation;
+                result = gif;
+                this.onMediaLoaded(result.resolution.clone());
+            } else if (type === 'camera') {
+                const camera = await this._loadCameraTexture(currentRequestId);
+                if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
+                    // The stream was handed over already; the newer load's cleanup has stopped it.
+                    this._releaseVideo(camera.video);
+                    camera.texture.dispose();
+                    return;
+                }
+                this.videoElement = camera.video;
+                result = camera;
+                this.onMediaLoaded(result.resolution.clone());
+            } else if (type === 'playlist') {
+                // Slides can differ in aspect ratio, so the playlist always fills the layout.
+                result = await this._loadFirstPlaylistItem(currentRequestId);
+            } else if (type === 'children') {
+                const canvas = await this._captureContentElement();
+                const texture = new THREE.CanvasTexture(canvas);
+                texture.colorSpace = THREE.SRGBColorSpace;
+                this.contentCaptureCanvas = canvas;
+                result = { texture, resolution: new THREE.Vector2(canvas.width, canvas.height) };
+            } else if (type === 'text' || type === 'svg') {
+                // Rasterized at the canvas size, so the component keeps its layout aspect ratio.
+                const canvas = await this._rasterizeContent(type, false);
+                const texture = new THREE.CanvasTexture(canvas);
+                texture.colorSpace = THREE.SRGBColorSpace;
+                result = { texture, resolution: new THREE.Vector2(canvas.width, canvas.height) };
+            } else {
+                throw new Error("No valid media source provided.");
+            }
+            
+            if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
+                 animation?.dispose();
+                 result.texture.dispose();
+                 return;
+            }
+            if (animation) this.animatedImage = animation;
+            this.imageCandidateWidth = candidateWidth;
+            
+            // Fit modes lay the media out at its intrinsic size, even if the texture is downscaled.
+            const intrinsicResolution = result.resolution.clone();
+            if (shouldResize) {
+                result = this._resizeTextureOnGPU(result.texture, result.resolution);
+            }
+            
+            console.log(`Clarity: Media loaded (${result.resolution.x}x${result.resolution.y}).`);
+            // Replaces the placeholder, if one was shown while loading.
+            this.copyMaterial.uniforms.uTexture.value?.dispose();
+            this.copyMaterial.uniforms.uTexture.value = result.texture;
+            this.copyMaterial.uniforms.uImageResolution.value.copy(intrinsicResolution);
+            
+            this.isMediaReady = true;
+            this.mediaRetryCount = 0;
+            this._tryStartAnimation();
+            this.props.onMediaReady?.({ mediaType: type, width: intrinsicResolution.x, height: intrinsicResolution.y });
+
+        } catch (error) {
+            if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
+                return;
+            }
+            this.isMediaReady = false;
+            this._cleanupPreviousMedia();
+            const mediaError = error instanceof ClarityMediaError ? error
+                : new ClarityMediaError('unknown', (error instanceof Error) ? error.message : String(error));
+            if (mediaError.retryable && this.mediaRetryCount < ClarityController.MAX_MEDIA_RETRIES) {
+                this._scheduleMediaRetry(mediaError);
+            } else {
+                this._reportMediaError(mediaError);
+            }
+        } finally {
+            if (!this.isCancelled && currentRequestId === this.loadMediaRequestId) {
+                this.mediaState.loading = false;
+                // The first candidate was picked before layout; the pane may have grown since.
+                if (this.isMediaReady) this._scheduleImageUpgrade();
+            }
+        }
+    }
+    
+    public async loadMask(maskUrl?: string) {
+        const src = maskUrl || '';
+        if (src === this.maskSrc) return;
+        this.maskSrc = src;
+        this.loadMaskRequestId++;
+        const currentRequestId = this.loadMaskRequestId;
+        this._cleanupMask();
+
+        if (!src) return;
+
+        try {
+            const loader = new THREE.TextureLoader();
+            loader.setCrossOrigin("Anonymous");
+            const texture = await loader.loadAsync(src);
+            if (this.isCancelled || currentRequestId !== this.loadMaskRequestId) {
+                texture.dispose();
+                return;
+            }
+            this.physicsMaterial.uniforms.uMask.value = texture;
+            this.physicsMaterial.uniforms.uHasMask.value = 1.0;
+            console.log("Clarity: Frost mask loaded.");
+        } catch (error) {
+            // The mask is an enhancement; keep the effect running unmasked if it fails.
+            if (currentRequestId === this.loadMaskRequestId) {
+                console.warn(`Clarity: Failed to load frost mask. Check CORS policy or URL: ${src}`);
+            }
+        }
+    }
+
+    private _cleanupMask() {
+        if (this.physicsMaterial.uniforms.uMask.value) {
+            this.physicsMaterial.uniforms.uMask.value.dispose();
+            this.physicsMaterial.uniforms.uMask.value = null;
+        }
+        this.physicsMaterial.uniforms.uHasMask.value = 0.0;
+    }
+
+    // --- Text / SVG content ---
+
+    private _getContentRasterSize() {
+        const width = this.layoutWidth > 0 ? this.layoutWidth * this.pixelRatio : 1024;
+        const height = this.layoutHeight > 0 ? this.layoutHeight * this.pixelRatio : 1024;
+        const scale = Math.min(1, ClarityController.MAX_CONTENT_RASTER_SIZE / Math.max(width, height));
+        return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    }
+
+    // Keyed on content only; layout changes redraw in place through _scheduleContentRasterize.
+    private _getContentKey(source: 'text' | 'svg' | 'children') {
+        if (source === 'children') return JSON.stringify([source, this.contentElementVersion]);
+        const { text, textFontFamily, textFontSize, textFontWeight, textColor, textBackground, textAlign, svgMarkup } = this.props;
+        const content = source === 'text'
+            ? [text, textFontFamily, textFontSize, textFontWeight, textColor, textAlign]
+            : [svgMarkup];
+        return JSON.stringify([source, textBackground, ...content]);
+    }
+
+    private async _rasterizeContent(source: 'text' | 'svg', forEtch: boolean): Promise<HTMLCanvasElement> {
+        const { width, height } = this._getContentRasterSize();
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to create a 2D canvas for text rendering.');
+
+        // Etch masks only need coverage, so they are drawn opaque-on-transparent.
+        if (!forEtch) {
+            ctx.fillStyle = this.props.textBackground;
+            ctx.fillRect(0, 0, width, height);
+        }
+
+        const scale = width / Math.max(1, this.layoutWidth || width);
+        if (source === 'text') {
+            const { text, textFontFamily, textFontSize, textFontWeight, textColor, textAlign } = this.props;
+            const fontSize = textFontSize * scale;
+            const font = `${textFontWeight} ${fontSize}px ${textFontFamily}`;
+            await document.fonts?.load(font).catch(() => undefined);
+
+            ctx.font = font;
+            ctx.fillStyle = forEtch ? '#ffffff' : textColor;
+            ctx.textAlign = textAlign;
+            ctx.textBaseline = 'middle';
+
+            const padding = fontSize * 0.5;
+            const lines = this._wrapText(ctx, text || '', width - padding * 2);
+            const lineHeight = fontSize * 1.2;
+            const x = textAlign === 'left' ? padding : textAlign === 'right' ? width - padding : width / 2;
+            const top = height / 2 - (lines.length - 1) * lineHeight / 2;
+            lines.forEach((line, i) => ctx.fillText(line, x, top + i * lineHeight));
+        } else {
+            const image = await this._loadSvgImage(this.props.svgMarkup || '');
+            const imageWidth = image.naturalWidth || width;
+            const imageHeight = image.naturalHeight || height;
+            // Contain-fit so the whole drawing stays visible.
+            const fit = Math.min(width / imageWidth, height / imageHeight);
+            const drawWidth = imageWidth * fit;
+            const drawHeight = imageHeight * fit;
+            ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        }
+
+        if (this.isCancelled) throw new Error('Component unmounted during content rendering');
+        return canvas;
+    }
+
+    private _wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+        const lines: string[] = [];
+        for (const paragraph of text.split('\n')) {
+            let line = '';
+            for (const word of paragraph.split(' ')) {
+                const candidate = line ? `${line} ${word}` : word;
+                if (ctx.measureText(candidate).width <= maxWidth) {
+                    line = candidate;
+                    continue;
+                }
+                if (line) lines.push(line);
+                line = word;
+                // Words wider than a whole line (URLs, long compounds) are broken by character.
+                while (line.length > 1 && ctx.measureText(line).width > maxWidth) {
+                    let fit = 1;
+                    while (fit < line.length - 1 && ctx.measureText(line.slice(0, fit + 1)).width <= maxWidth) fit++;
+                    lines.push(line.slice(0, fit));
+                    line = line.slice(fit);
+                }
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    private _loadSvgImage(markup: string): Promise<HTMLImageElement> {
+        let svg = markup.trim();
+        if (!svg.startsWith('<svg') && !svg.startsWith('<?xml')) {
+            return Promise.reject(new Error('SVG markup must start with an <svg> element.'));
+        }
+        if (!svg.includes('xmlns=')) {
+            svg = svg.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"');
+        }
+
+        return new Promise((resolve, reject) => {
+            const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+            const image = new Image();
+            image.onload = () => {
+                URL.revokeObjectURL(url);
+                resolve(image);
+            };
+            image.onerror = () => {
+                URL.revokeObjectURL(url);
+                reject(new Error('Failed to render SVG. Check that the markup is valid.'));
+            };
+            image.src = url;
+        });
+    }
+
+    private async _updateEtch(redraw = false) {
+        const { etchMode, etchSource } = this.props;
+        const key = etchMode === 'none' ? '' : `${etchMode}:${this._getContentKey(etchSource)}`;
+        if (key === this.etchKey && !(redraw && key)) return;
+        this.etchKey = key;
+        this.etchRequestId++;
+        const currentRequestId = this.etchRequestId;
+
+        if (!key) {
+            this._cleanupEtch();
+            return;
+        }
+
+        try {
+            const canvas = await this._rasterizeContent(etchSource, true);
+            if (this.isCancelled || currentRequestId !== this.etchRequestId) return;
+            this._cleanupEtch();
+            this.physicsMaterial.uniforms.uEtch.value = new THREE.CanvasTexture(canvas);
+            this.physicsMaterial.uniforms.uEtchMode.value = etchMode === 'frost' ? 2.0 : 1.0;
+        } catch (error) {
+            if (currentRequestId === this.etchRequestId) {
+                console.warn(`Clarity: Failed to render etched content. ${(error instanceof Error) ? error.message : error}`);
+            }
+        }
+    }
+
+    private _cleanupEtch() {
+        if (this.physicsMaterial.uniforms.uEtch.value) {
+            this.physicsMaterial.uniforms.uEtch.value.dispose();
+            this.physicsMaterial.uniforms.uEtch.value = null;
+        }
+        this.physicsMaterial.uniforms.uEtchMode.value = 0.0;
+    }
+
+    // Rasterized content is sized to the canvas, so redraw it (debounced) when the layout changes.
+    private _scheduleContentRasterize() {
+        const usesContent = ['text', 'svg', 'children'].includes(this.props.mediaType) || this.props.etchMode !== 'none';
+        if (!usesContent) return;
+        if (this.contentResizeTimer) clearTimeout(this.contentResizeTimer);
+        this.contentResizeTimer = setTimeout(() => {
+            this.contentResizeTimer = null;
+            if (this.isCancelled) return;
+            this._redrawContentMedia();
+            this._updateEtch(true);
+        }, ClarityController.CONTENT_RESIZE_DEBOUNCE);
+    }
+
+    // Swaps in a redraw at the new size without going through loadMedia, so the old raster
+    // stays up until the new one is ready instead of the pane flashing empty.
+    private async _redrawContentMedia() {
+        const type = this.mediaState.type;
+        if (type !== 'text' && type !== 'svg' && type !== 'children') return;
+        if (this.mediaState.loading || !this.copyMaterial.uniforms.uTexture.value) return;
+        const requestId = this.loadMediaRequestId;
+        // A font load or capture can outlast the debounce, so an older redraw may finish last.
+        this.contentRedrawRequestId++;
+        const redrawRequestId = this.contentRedrawRequestId;
+        try {
+            const canvas = type === 'children' ? await this._captureContentElement() : await this._rasterizeContent(type, false);
+            if (this.isCancelled || requestId !== this.loadMediaRequestId || redrawRequestId !== this.contentRedrawRequestId || this.mediaState.loading) return;
+            const texture = new THREE.CanvasTexture(canvas);
+            texture.colorSpace = THREE.SRGBColorSpace;
+            if (type === 'children') this.contentCaptureCanvas = canvas;
+            const uniforms = this.copyMaterial.uniforms;
+            uniforms.uTexture.value?.dispose();
+            uniforms.uTexture.value = texture;
+            uniforms.uImageResolution.value.set(canvas.width, canvas.height);
+        } catch (error) {
+            if (!this.isCancelled) console.warn(`Clarity: Failed to redraw content. ${(error instanceof Error) ? error.message : error}`);
+        }
+    }
+
+    // --- Live child content ---
+
+    /** Registers the element holding the component's children, used as the backdrop in 'children' mode. */
+    public setContentElement(element: HTMLElement | null) {
+        if (element === this.contentElement) return;
+        this.contentObserver?.disconnect();
+        this.contentObserver = null;
+        this.contentElement = element;
+        this.contentElementVersion++;
+
+        if (element) {
+            this.contentObserver = new MutationObserver(this._scheduleContentCapture);
+            this.contentObserver.observe(element, { subtree: true, childList: true, attributes: true, characterData: true });
+        }
+        if (this.props.mediaType === 'children') {
+            this.loadMedia(this.props.mediaType, this.props.imageUrl, this.props.videoUrl, this.props.gifUrl);
+        }
+    }
+
+    private _applyContentMode() {
+        const isLive = this.props.mediaType === 'children';
+        // Cleared glass turns transparent and lets clicks through to the real content below.
+        this.canvas.style.pointerEvents = isLive ? 'none' : '';
+        // Over a transparent background the page behind shows through cleared glass as well.
+        this.mainMaterial.uniforms.uRevealAlpha.value = isLive || this.props.transparentBackground ? 1.0 : 0.0;
+    }
+
+    // Only the frosted regions show the capture, blurred, so a slightly stale copy is invisible.
+    private _scheduleContentCapture = () => {
+        if (this.contentCaptureTimer || this.isCancelled) return;
+        this.contentCaptureTimer = setTimeout(async () => {
+            this.contentCaptureTimer = null;
+            const canvas = this.contentCaptureCanvas;
+            const texture = this.copyMaterial.uniforms.uTexture.value;
+            if (this.isCancelled || this.mediaState.type !== 'children' || !canvas || !texture) return;
+            // After a resize the pending redraw swaps in a canvas of the new size instead.
+            const { width, height } = this._getContentRasterSize();
+            if (canvas.width !== width || canvas.height !== height) return;
+            try {
+                await this._captureContentElement(canvas);
+                texture.needsUpdate = true;
+            } catch (error) {
+                console.warn(`Clarity: Failed to capture live content. ${(error instanceof Error) ? error.message : error}`);
+            }
+        }, ClarityController.CONTENT_CAPTURE_INTERVAL);
+    };
+
+    /**
+     * Rasterizes the live content through an SVG foreignObject. Same-origin stylesheets are
+     * inlined; cross-origin images, canvases and form state are not captured, and browsers
+     * that taint the result fall back to the content's background color.
+     */
+    private async _captureContentElement(target?: HTMLCanvasElement): Promise<HTMLCanvasElement> {
+        const { width, height } = this._getContentRasterSize();
+        const element = this.contentElement;
+        const background = this._getContentBackground(element);
+
+        // Drawn into a scratch canvas first: a tainted canvas stays tainted, and uploading one
+        // to a texture throws, so only readable pixels are copied into the returned canvas.
+        const scratch = document.createElement('canvas');
+        scratch.width = width;
+        scratch.height = height;
+        const scratchCtx = scratch.getContext('2d', { willReadFrequently: false });
+        if (!scratchCtx) throw new Error('Failed to create a 2D canvas for content capture.');
+        scratchCtx.fillStyle = background;
+        scratchCtx.fillRect(0, 0, width, height);
+
+        let isReadable = true;
+        if (element) {
+            const layoutWidth = Math.max(1, this.layoutWidth || width);
+            const layoutHeight = Math.max(1, this.layoutHeight || height);
+            const markup = new XMLSerializer().serializeToString(element);
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${layoutWidth} ${layoutHeight}">`
+                + `<foreignObject x="0" y="0" width="${layoutWidth}" height="${layoutHeight}">`
+                + `<div xmlns="http://www.w3.org/1999/xhtml" style="position:relative;width:${layoutWidth}px;height:${layoutHeight}px;">`
+                + `<style><![CDATA[${this._collectStyleSheets()}]]></style>${markup}`
+                + `</div></foreignObject></svg>`;
+
+            const image = await this._loadSvgImage(svg);
+            if (this.isCancelled) throw new Error('Component unmounted during content capture');
+            scratchCtx.drawImage(image, 0, 0, width, height);
+
+            try {
+                scratchCtx.getImageData(0, 0, 1, 1);
+            } catch {
+                console.warn('Clarity: Live content capture was blocked by the browser; using its background color.');
+                isReadable = false;
+            }
+        }
+
+        const canvas = target ?? document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: false });
+        if (!ctx) throw new Error('Failed to create a 2D canvas for content capture.');
+        if (isReadable) {
+            ctx.drawImage(scratch, 0, 0);
+        } else {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, width, height);
+        }
+        return canvas;
+    }
+
+    private _getContentBackground(element: HTMLElement | null) {
+        for (let node = element; node; node = node.parentElement) {
+            const color = getComputedStyle(node).backgroundColor;
+            if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') return color;
+        }
+        return '#ffffff';
+    }
+
+    private _collectStyleSheets() {
+        let css = '';
+        for (const sheet of Array.from(document.styleSheets)) {
+            try {
+                for (const rule of Array.from(sheet.cssRules)) css += rule.cssText;
+            } catch {
+                // Cross-origin stylesheets can't be read; their rules are skipped.
+            }
+        }
+        // Stylesheet text is embedded in XML, so keep it inside a CDATA section.
+        return css.replace(/]]>/g, ']]]]><![CDATA[>');
+    }
+
+    private _tryStartAnimation() {
+        if (this.hasSizedOnce && this.isMediaReady && !this.isRestorePending && !this.isPaused) {
+            if (this.pendingRestore) {
+                const texture = this.pendingRestore;
+                this.pendingRestore = null;
+                this._writePhysicsState(texture);
+            }
+            console.log("Clarity: All conditions met. Starting animation loop.");
+            this.start();
+        }
+    }
+
+    // --- Responsive Images ---
+
+    // A srcset loads as one source, so its key must not change with the candidate picked.
+    private _getImageKey(imageUrl?: string) {
+        const candidates = (this.props.imageSrcSet || []).filter(candidate => candidate && candidate.url);
+        return candidates.length > 0 ? JSON.stringify(candidates) : imageUrl;
+    }
+
+    // Before the first resize the layout is unknown, so fall back to the container's width.
+    private _getImageTargetWidth() {
+        return (this.layoutWidth || this.container.clientWidth) * this.pixelRatio;
+    }
+
+    private async _loadResponsiveImage(imageUrl?: string) {
+        const candidate = await pickImageCandidate(this.props.imageSrcSet || [], this._getImageTargetWidth());
+        const url = candidate ? candidate.url : imageUrl;
+        if (!url) throw new ClarityMediaError('unsupported', "None of the responsive image formats are supported by this browser.");
+        if (candidate) console.log(`Clarity: Picked the ${candidate.width}w ${candidate.type || 'image'} candidate.`);
+        const image = await this._loadImageTexture(url);
+        return { ...image, candidateWidth: candidate ? candidate.width : Infinity };
+    }
+
+    // Growing past the loaded candidate swaps in a wider one; shrinking keeps what is already decoded.
+    private _scheduleImageUpgrade() {
+        if (this.props.mediaType !== 'image' || this.mediaState.loading) return;
+        if (this.imageCandidateWidth >= this._getImageTargetWidth()) return;
+        if (this.imageUpgradeTimer) clearTimeout(this.imageUpgradeTimer);
+        this.imageUpgradeTimer = setTimeout(() => {
+            this.imageUpgradeTimer = null;
+            if (!this.isCancelled) this._upgradeImage();
+        }, ClarityController.CONTENT_RESIZE_DEBOUNCE);
+    }
+
+    private async _upgradeImage() {
+        const requestId = this.loadMediaRequestId;
+        const candidate = await pickImageCandidate(this.props.imageSrcSet || [], this._getImageTargetWidth());
+        if (!candidate || candidate.width <= this.imageCandidateWidth) return;
+
+        let image: { texture: THREE.Texture, resolution: THREE.Vector2 };
+        try {
+            image = await this._loadImageTexture(candidate.url);
+        } catch (error) {
+            if (!this.isCancelled) console.warn(`Clarity: ${(error instanceof Error) ? error.message : error}`);
+            return;
+        }
+        // The old image stays up until the wider one is decoded, unless the media changed meanwhile.
+        if (this.isCancelled || requestId !== this.loadMediaRequestId || this.mediaState.loading || candidate.width <= this.imageCandidateWidth) {
+            image.texture.dispose();
+            return;
+        }
+        console.log(`Clarity: Upgraded to the ${candidate.width}w image candidate.`);
+        const intrinsicResolution = image.resolution.clone();
+        image = this._resizeTextureOnGPU(image.texture, image.resolution);
+        this.copyMaterial.uniforms.uTexture.value?.dispose();
+        this.copyMaterial.uniforms.uTexture.value = image.texture;
+        this.copyMaterial.uniforms.uImageResolution.value.copy(intrinsicResolution);
+        this.imageCandidateWidth = candidate.width;
+    }
+
+    // --- Media Errors ---
+
+    private _reportMediaError(error: ClarityMediaError) {
+        console.error(`Clarity Component Error (${error.code}): ${error.message}`);
+        this.onError(error);
+        this.props.onMediaError?.(error);
+    }
+
+    private _scheduleMediaRetry(error: ClarityMediaError) {
+        const delay = ClarityController.MEDIA_RETRY_DELAY * Math.pow(2, this.mediaRetryCount);
+        this.mediaRetryCount++;
+        console.warn(`Clarity: ${error.message} Retrying in ${delay}ms (attempt ${this.mediaRetryCount} of ${ClarityController.MAX_MEDIA_RETRIES}).`);
+        this.mediaRetryTimer = setTimeout(() => {
+            this.mediaRetryTimer = null;
+            if (this.isCancelled) return;
+            // Forget the failed source so loadMedia doesn't treat it as already loaded.
+            this.mediaState = { type: '', src: '', loading: false };
+            this.loadMedia(this.props.mediaType, this.props.imageUrl, this.props.videoUrl, this.props.gifUrl);
+        }, delay);
+    }
+
+    private _clearMediaRetry() {
+        if (this.mediaRetryTimer) clearTimeout(this.mediaRetryTimer);
+        this.mediaRetryTimer = null;
+    }
+
+    // --- Placeholders ---
+
+    // Stands in behind the frost until the media is ready: a video's poster if it has one,
+    // else the configured placeholder. Replaced by the media, or cleared on failure.
+    private async _showPlaceholder(requestId: number, posterUrl?: string) {
+        let placeholder: { texture: THREE.Texture, resolution: THREE.Vector2 | null } | null;
+        try {
+            placeholder = posterUrl ? await this._loadImageTexture(posterUrl) : await this._createPlaceholder();
+        } catch (error) {
+            if (!this.isCancelled) console.warn(`Clarity: Placeholder unavailable. ${(error instanceof Error) ? error.message : error}`);
+            return;
+        }
+        if (!placeholder) return;
+        // Too late once the media has loaded, failed or been replaced.
+        if (this.isCancelled || requestId !== this.loadMediaRequestId || !this.mediaState.loading) {
+            placeholder.texture.dispose();
+            return;
+        }
+
+        const uniforms = this.copyMaterial.uniforms;
+        if (placeholder.resolution) {
+            uniforms.uImageResolution.value.copy(placeholder.resolution);
+            this.onMediaLoaded(placeholder.resolution.clone());
+            placeholder = this._resizeTextureOnGPU(placeholder.texture, placeholder.resolution);
+        } else {
+            // Colors and blurhashes have no aspect ratio of their own; stretch them over the pane.
+            uniforms.uImageResolution.value.copy(uniforms.uResolution.value);
+        }
+        uniforms.uTexture.value = placeholder.texture;
+        this.isMediaReady = true;
+        this._tryStartAnimation();
+    }
+
+    private async _createPlaceholder(): Promise<{ texture: THREE.Texture, resolution: THREE.Vector2 | null } | null> {
+        const { placeholder, placeholderColor, placeholderBlurhash, placeholderPreview } = this.props;
+        if (placeholder === 'preview') {
+            return placeholderPreview ? this._loadImageTexture(placeholderPreview) : null;
+        }
+        if (placeholder !== 'color' && placeholder !== 'blurhash') return null;
+        if (placeholder === 'blurhash' && !placeholderBlurhash) return null;
+
+        const size = placeholder === 'blurhash' ? ClarityController.BLURHASH_SIZE : 1;
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to create a 2D canvas for the placeholder.');
+        if (placeholder === 'blurhash') {
+            ctx.putImageData(new ImageData(decodeBlurhash(placeholderBlurhash!, size, size), size, size), 0, 0);
+        } else {
+            ctx.fillStyle = placeholderColor;
+            ctx.fillRect(0, 0, size, size);
+        }
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        return { texture, resolution: null };
+    }
+
+    // --- Video ---
+
+    // Browsers reject unmuted autoplay without a user gesture, and low power modes can reject
+    // autoplay altogether. Playback falls back to muted, or waits, and recovers on the next wipe.
+    private async _playVideo(video: HTMLVideoElement): Promise<boolean> {
+        const isAutoplayRejection = (error: unknown) => error instanceof DOMException && error.name === 'NotAllowedError';
+        try {
+            await video.play();
+            return true;
+        } catch (error) {
+            if (!isAutoplayRejection(error)) throw error;
+        }
+        this.isVideoAutoplayBlocked = true;
+        if (!video.muted) {
+            video.muted = true;
+            try {
+                await video.play();
+                console.warn("Clarity: Autoplay with sound was blocked; playing muted until the first interaction.");
+                return true;
+            } catch (error) {
+                if (!isAutoplayRejection(error)) throw error;
+            }
+        }
+        console.warn("Clarity: Autoplay was blocked; the video starts on the first interaction.");
+        // Not fatal, but the host may want to show its own play button.
+        this.props.onMediaError?.(new ClarityMediaError('autoplay', "Autoplay was blocked by the browser.", video.currentSrc));
+        return false;
+    }
+
+    // Called from pointer handlers, which carry the user activation the browser asked for.
+    private _resumeBlockedVideo() {
+        if (!this.isVideoAutoplayBlocked) return;
+        this.isVideoAutoplayBlocked = false;
+        const video = this.videoElement;
+        if (!video) return;
+        video.muted = !this.props.videoSound;
+        if (video.paused && !this.isMediaPaused && !this.isVideoWaitingForReveal && video.currentTime < this._getVideoRange(video).end) {
+            video.play().catch(() => {});
+        }
+    }
+
+    private _startRevealedVideo() {
+        if (!this.isVideoWaitingForReveal) return;
+        this.isVideoWaitingForReveal = false;
+        if (this.videoElement && !this.isMediaPaused) this._playVideo(this.videoElement).catch(() => {});
+    }
+
+    // Loop points of the 'video' media type, clamped to the clip; playlist videos always play whole.
+    private _getVideoRange(video: HTMLVideoElement) {
+        const duration = isFinite(video.duration) ? video.duration : Infinity;
+        if (this.mediaState.type !== 'video') return { start: 0, end: duration };
+        const start = Math.min(Math.max(0, this.props.videoStartTime || 0), duration);
+        const end = this.props.videoEndTime > start ? Math.min(this.props.videoEndTime, duration) : duration;
+        return { start, end };
+    }
+
+    // Checked every frame for a tight loop point, and on timeupdate for when the loop is paused offscreen.
+    private _enforceVideoRange() {
+        const video = this.videoElement;
+        if (!video || this.mediaState.type !== 'video' || video.paused) return;
+        if (video.currentTime >= this._getVideoRange(video).end) this._finishVideoPass(video);
+    }
+
+    private _finishVideoPass(video: HTMLVideoElement) {
+        if (this.props.videoLoop) {
+            video.currentTime = this._getVideoRange(video).start;
+            if (video.paused && !this.isMediaPaused) this._playVideo(video).catch(() => {});
+            return;
+        }
+        // The range check on timeupdate and the native ended event both see a natural end.
+        if (this.isVideoPassFinished) return;
+        this.isVideoPassFinished = true;
+        video.pause();
+        this.props.onVideoEnded?.();
+    }
+
+    private _handleVideoPlay = () => {
+        this.isVideoPassFinished = false;
+    };
+
+    private _handleVideoTimeUpdate = () => {
+        const video = this.videoElement;
+        if (!video) return;
+        this._enforceVideoRange();
+        this.props.onVideoTimeUpdate?.(video.currentTime, video.duration);
+    };
+
+    private _handleVideoEnded = () => {
+        if (this.videoElement) this._finishVideoPass(this.videoElement);
+    };
+
+    private _attachVideoEvents(video: HTMLVideoElement) {
+        video.addEventListener('timeupdate', this._handleVideoTimeUpdate);
+        video.addEventListener('ended', this._handleVideoEnded);
+        video.addEventListener('play', this._handleVideoPlay);
+    }
+
+    private _detachVideoEvents(video: HTMLVideoElement) {
+        video.removeEventListener('timeupdate', this._handleVideoTimeUpdate);
+        video.removeEventListener('ended', this._handleVideoEnded);
+        video.removeEventListener('play', this._handleVideoPlay);
+    }
+
+    // --- Camera ---
+
+    /** Shows a caller-supplied stream (screen or canvas capture, a fake test stream) in 'camera' mode. */
+    public setMediaStream(stream: MediaStream | null) {
+        this.streamOverride = stream;
+        if (this.props.mediaType === 'camera') {
+            this.loadMedia(this.props.mediaType, this.props.imageUrl, this.props.videoUrl, this.props.gifUrl);
+        }
+    }
+
+    private _getSuppliedStream() {
+        return this.streamOverride || this.props.mediaStream || null;
+    }
+
+    private _getCameraKey() {
+        const stream = this._getSuppliedStream();
+        return stream ? `stream:${stream.id}` : `camera:${this.props.cameraFacing}`;
+    }
+
+    private async _openCameraStream() {
+        if (!navigator.mediaDevices?.getUserMedia) {
+            throw new ClarityMediaError('camera', "Camera access needs a secure (HTTPS) page in a browser that supports it.");
+        }
+        try {
+            return await navigator.mediaDevices.getUserMedia({ video: { facingMode: this.props.cameraFacing }, audio: false });
+        } catch (error) {
+            const name = error instanceof DOMException ? error.name : '';
+            if (name === 'NotAllowedError' || name === 'SecurityError') {
+                throw new ClarityMediaError('camera', "Camera access was denied. Allow camera permission for this site and reload.");
+            }
+            if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+                throw new ClarityMediaError('camera', "No camera was found on this device.");
+            }
+            if (name === 'NotReadableError') {
+                throw new ClarityMediaError('camera', "The camera is in use by another application.");
+            }
+            throw new ClarityMediaError('camera', `Failed to open the camera. ${(error instanceof Error) ? error.message : error}`);
+        }
+    }
+
+    private async _loadCameraTexture(requestId: number): Promise<{ texture: THREE.VideoTexture, resolution: THREE.Vector2, video: HTMLVideoElement }> {
+        const supplied = this._getSuppliedStream();
+        const stream = supplied || await this._openCameraStream();
+        const video = document.createElement('video');
+        const throwIfSuperseded = () => {
+            if (this.isCancelled || requestId !== this.loadMediaRequestId) throw new Error('Camera load superseded');
+        };
+        try {
+            throwIfSuperseded();
+            video.srcObject = stream;
+            video.muted = true;
+            video.playsInline = true;
+            await new Promise<void>((resolve, reject) => {
+                video.onloadedmetadata = () => resolve();
+                video.onerror = () => reject(new ClarityMediaError('camera', "The camera stream could not be played."));
+            });
+            video.onloadedmetadata = null;
+            video.onerror = null;
+            throwIfSuperseded();
+            if (!this.isMediaPaused) await video.play();
+            throwIfSuperseded();
+        } catch (error) {
+            // A newer load has already cleaned up, so a stale stream has to be shut off here, or
+            // the camera (and its indicator light) stays on. Supplied streams belong to the caller.
+            if (!supplied) stream.getTracks().forEach(track => track.stop());
+            this._releaseVideo(video);
+            throw error;
+        }
+        if (!supplied) this.cameraStream = stream;
+
+        // Unplugged cameras and stopped screen shares end their tracks.
+        stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+            if (this.videoElement === video) this._reportMediaError(new ClarityMediaError('camera', "The camera stream ended."));
+        }, { once: true }));
+
+        return {
+            texture: new THREE.VideoTexture(video),
+            resolution: new THREE.Vector2(video.videoWidth, video.videoHeight),
+            video,
+        };
+    }
+
+    // --- Playlist ---
+
+    private _getPlaylistItems() {
+        return (this.props.mediaItems || []).filter(item => item && item.url);
+    }
+
+    private _getPlaylistKey() {
+        const items = this._getPlaylistItems();
+        return items.length > 0 ? JSON.stringify(items) : '';
+    }
+
+    private async _loadPlaylistItem(item: ClarityMediaItem): Promise<LoadedMedia> {
+        if (item.type === 'video') {
+            const { texture, resolution, video } = await this._loadVideoTexture(item.url, false);
+            // Loop only to fill an explicit duration; otherwise the clip plays through once. A lone
+            // slide never advances, so it loops rather than freezing on its last frame.
+            const isOnlyItem = this._getPlaylistItems().length < 2;
+            video.loop = item.duration > 0 || isOnlyItem;
+            return { texture, resolution, video, animation: null };
+        }
+        if (item.type === 'gif') {
+            const { texture, resolution, animation } = await this._loadGifTexture(item.url);
+            // Preloaded slides hold their first frame until they come on screen.
+            animation.pause();
+            return { texture, resolution, video: null, animation };
+        }
+        const loaded = await this._loadImageTexture(item.url);
+        const resized = this._resizeTextureOnGPU(loaded.texture, loaded.resolution);
+        return { texture: resized.texture, resolution: loaded.resolution, video: null, animation: null };
+    }
+
+    // Starts at the first item that loads, so one broken link doesn't blank the whole playlist.
+    private async _loadFirstPlaylistItem(requestId: number): Promise<{ texture: THREE.Texture, resolution: THREE.Vector2 }> {
+        const items = this._getPlaylistItems();
+        let lastError: unknown = null;
+        for (let index = 0; index < items.length; index++) {
+            try {
+                const current = await this._loadPlaylistItem(items[index]);
+                if (this.isCancelled || requestId !== this.loadMediaRequestId) {
+                    this._disposeLoadedMedia(current);
+                    throw new Error('Playlist load superseded');
+                }
+                if (!this.isMediaPaused) {
+                    if (current.video) this._playVideo(current.video).catch(() => {});
+                    current.animation?.play();
+                }
+                this.videoElement = current.video;
+                this.animatedImage = current.animation;
+                this.playlist = {
+                    items, index, current,
+                    slideStartTime: performance.now(),
+                    next: null, nextIndex: index, isLoadingNext: false, transitionStartTime: null,
+                };
+                this._preloadNextSlide();
+                // The shared media path uploads this texture; it must not be downscaled twice.
+                return { texture: current.texture, resolution: current.resolution };
+            } catch (error) {
+                if (this.isCancelled || requestId !== this.loadMediaRequestId) throw error;
+                console.warn(`Clarity: Skipping playlist item ${index + 1}. ${(error instanceof Error) ? error.message : error}`);
+                lastError = error;
+            }
+        }
+        throw lastError instanceof Error ? lastError : new Error("No playable playlist items.");
+    }
+
+    private async _preloadNextSlide() {
+        const playlist = this.playlist;
+        if (!playlist || playlist.items.length < 2 || playlist.next || playlist.isLoadingNext) return;
+
+        playlist.isLoadingNext = true;
+        // Broken items are skipped, wrapping around at most once.
+        for (let step = 1; step < playlist.items.length; step++) {
+            const index = (playlist.index + step) % playlist.items.length;
+            try {
+                const next = await this._loadPlaylistItem(playlist.items[index]);
+                if (this.isCancelled || this.playlist !== playlist) {
+                    this._disposeLoadedMedia(next);
+                    return;
+                }
+                playlist.next = next;
+                playlist.nextIndex = index;
+                break;
+            } catch (error) {
+                if (this.isCancelled || this.playlist !== playlist) return;
+                console.warn(`Clarity: Skipping playlist item ${index + 1}. ${(error instanceof Error) ? error.message : error}`);
+            }
+        }
+        playlist.isLoadingNext = false;
+    }
+
+    private _getSlideDuration(playlist: PlaylistState) {
+        const item = playlist.items[playlist.index];
+        if (item.duration > 0) return item.duration * 1000;
+        // Videos without an explicit duration play through once.
+        const video = playlist.current.video;
+        if (video && isFinite(video.duration) && video.duration > 0) return video.duration * 1000;
+        return ClarityController.DEFAULT_SLIDE_DURATION * 1000;
+    }
+
+    private _advancePlaylist(now: number) {
+        const playlist = this.playlist;
+        if (!playlist) return;
+        const uniforms = this.copyMaterial.uniforms;
+        if (this.isMediaPaused) return;
+        playlist.current.animation?.update(now);
+
+        if (playlist.transitionStartTime === null) {
+            if (!playlist.next || now - playlist.slideStartTime < this._getSlideDuration(playlist)) return;
+            const next = playlist.next;
+            const transition = playlist.items[playlist.nextIndex].transition || 'crossfade';
+            playlist.transitionStartTime = now;
+            uniforms.uNextTexture.value = next.texture;
+            uniforms.uNextImageResolution.value.copy(next.resolution);
+            uniforms.uTransitionMode.value = transition === 'wipe' ? 1 : 0;
+            if (next.video) {
+                next.video.currentTime = 0;
+                this._playVideo(next.video).catch(() => {});
+            }
+            next.animation?.play();
+            if (this.props.refrostOnChange) this.frostAll(ClarityController.SLIDE_TRANSITION_DURATION);
+        }
+
+        const next = playlist.next!;
+        next.animation?.update(now);
+        const transition = playlist.items[playlist.nextIndex].transition || 'crossfade';
+        const duration = transition === 'cut' ? 0 : ClarityController.SLIDE_TRANSITION_DURATION;
+        const progress = duration > 0 ? Math.min(1, (now - playlist.transitionStartTime!) / duration) : 1;
+        uniforms.uTransition.value = progress * progress * (3 - 2 * progress);
+        if (progress < 1) return;
+
+        // The incoming slide becomes current; the outgoing one is released.
+        this._disposeLoadedMedia(playlist.current);
+        playlist.current = next;
+        playlist.index = playlist.nextIndex;
+        playlist.next = null;
+        playlist.transitionStartTime = null;
+        playlist.slideStartTime = now;
+        this.videoElement = next.video;
+        this.animatedImage = next.animation;
+        uniforms.uTexture.value = next.texture;
+        uniforms.uImageResolution.value.copy(next.resolution);
+        uniforms.uNextTexture.value = null;
+        uniforms.uTransition.value = 0.0;
+        this._preloadNextSlide();
+    }
+
+    private _disposeLoadedMedia(media: LoadedMedia) {
+        if (media.video) this._releaseVideo(media.video);
+        media.animation?.dispose();
+        media.texture.dispose();
+    }
+
+    // The current slide's texture, video and animation are owned by the shared media state.
+    private _cleanupPlaylist() {
+        if (!this.playlist) return;
+        if (this.playlist.next) this._disposeLoadedMedia(this.playlist.next);
+        this.playlist = null;
+        this.copyMaterial.uniforms.uNextTexture.value = null;
+        this.copyMaterial.uniforms.uTransition.value = 0.0;
+    }
+
+    // --- WebGL Context Loss ---
+
+    private _initContextLossHandling() {
+        this.canvas.addEventListener('webglcontextlost', this._handleContextLost);
+        this.canvas.addEventListener('webglcontextrestored', this._handleContextRestored);
+        document.addEventListener('visibilitychange', this._handleVisibilityChange);
+    }
+
+    private _removeContextLossHandling() {
+        this.canvas.removeEventListener('webglcontextlost', this._handleContextLost);
+        this.canvas.removeEventListener('webglcontextrestored', this._handleContextRestored);
+        document.removeEventListener('visibilitychange', this._handleVisibilityChange);
+    }
+
+    // Mobile browsers mostly reclaim the GPU from hidden tabs, so keep a snapshot from just before.
+    private _handleVisibilityChange = () => {
+        if (document.hidden && this.hasSizedOnce && !this.isContextLost) this._readPhysicsPixels();
+    };
+
+    private _handleContextLost = (event: Event) => {
+        // Without this the browser never offers the context back.
+        event.preventDefault();
+        if (this.isCancelled || this.isContextLost) return;
+        console.warn("Clarity: WebGL context lost; pausing until it is restored.");
+        this.isContextLost = true;
+        this._cancelFrame();
+        this.props.onContextLost?.();
+    };
+
+    // Three re-creates its GL objects lazily after a restore, but anything whose pixels only
+    // lived on the GPU (the physics state, GPU-downscaled media) has to be regenerated here.
+    private _handleContextRestored = () => {
+        if (this.isCancelled || !this.isContextLost) return;
+        console.log("Clarity: WebGL context restored; rebuilding GPU resources.");
+        this.isContextLost = false;
+
+        // The restored context can come from a different GPU with different float support.
+        this.physicsEncoding = this._detectPhysicsEncoding();
+        for (const material of [this.mainMaterial, this.physicsMaterial, this.reduceMaterial, this.snapshotMaterial, this.restoreMaterial]) {
+            material.defines = this._getPhysicsDefines();
+            material.needsUpdate = true;
+        }
+        this._disposeRenderTargets();
+        this._initRenderTargets();
+        if (this.hasSizedOnce) this.setLayoutSize(this.layoutWidth, this.layoutHeight);
+
+        const texture = this.copyMaterial.uniforms.uTexture.value;
+        if (this.playlist || this.mediaState.loading || texture?.isRenderTargetTexture) {
+            // Forget the current source so loadMedia fetches and uploads it again.
+            this.mediaState = { type: '', src: '', loading: false };
+            this.loadMedia(this.props.mediaType, this.props.imageUrl, this.props.videoUrl, this.props.gifUrl);
+        }
+        if (typeof this.lastSnapshot === 'string') {
+            this.restoreState(this.lastSnapshot);
+        } else if (this.lastSnapshot) {
+            this.pendingRestore?.dispose();
+            this.pendingRestore = this._createPixelsTexture(this.lastSnapshot);
+        }
+
+        this._tryStartAnimation();
+        this.props.onContextRestored?.();
+    };
+
+    // --- Persistence ---
+
+    private _initPersistence() {
+        const stored = this.props.persistState ? this._readStoredState() : null;
+        const snapshot = stored || this.props.initialState;
+        if (snapshot) {
+            this.restoreState(snapshot);
+        }
+        window.addEventListener('pagehide', this._handlePageHide);
+    }
+
+    private _getStorage(): Storage | null {
+        try {
+            return this.props.persistStorage === 'session' ? window.sessionStorage : window.localStorage;
+        } catch {
+            return null; // Storage can be blocked entirely (e.g. sandboxed iframes).
+        }
+    }
+
+    private _readStoredState() {
+        try {
+            return this._getStorage()?.getItem(this.props.persistKey) ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    private _handlePageHide = () => this._saveState();
+
+    private _saveState() {
+        const { persistState, persistKey, onStateSnapshot } = this.props;
+        if ((!persistState && !onStateSnapshot) || !this.hasSizedOnce) return;
+
+        const snapshot = this.getStateSnapshot();
+        if (!snapshot) return;
+        if (persistState) {
+            try {
+                this._getStorage()?.setItem(persistKey, snapshot);
+            } catch (error) {
+                console.warn(`Clarity: Failed to persist wipe state. ${(error instanceof Error) ? error.message : error}`);
+            }
+        }
+        onStateSnapshot?.(snapshot);
+    }
+
+    /** Serializes the downsampled clear/water/drip state as a PNG data URL. */
+    public getStateSnapshot(): string | null {
+        // A lost context reads back nothing; the last good snapshot is the current state.
+        const snapshot = this.isContextLost ? this.lastSnapshot : this._readPhysicsPixels();
+        if (!snapshot) return null;
+        if (typeof snapshot === 'string') return snapshot;
+
+        const { data, width, height } = snapshot;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        // GL rows run bottom-up; flip so the PNG reads upright.
+        const imageData = ctx.createImageData(width, height);
+        const rowBytes = width * 4;
+        for (let y = 0; y < height; y++) {
+            imageData.data.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), (height - 1 - y) * rowBytes);
+        }
+        ctx.putImageData(imageData, 0, 0);
+        return canvas.toDataURL('image/png');
+    }
+
+    // The raw readback is what a lost context is restored from; PNG encoding waits for getStateSnapshot.
+    private _readPhysicsPixels(): PhysicsPixels | null {
+        const source = this.physicsRenderTargetA;
+        if (!this.hasSizedOnce || source.width <= 1 || source.height <= 1) return null;
 
-        const rtWidth = width * this.pixelRatio;
-        const rtHeight = height * this.pixelRatio;
+        const scale = Math.min(1, ClarityController.SNAPSHOT_MAX_SIZE / Math.max(source.width, source.height));
+        const width = Math.max(1, Math.round(source.width * scale));
+        const height = Math.max(1, Math.round(source.height * scale));
 
-        const downsampledWidth = Math.max(1, Math.round(rtWidth / this.downsampleFactor));
-        const downsampledHeight = Math.max(1, Math.round(rtHeight / this.downsampleFactor));
-        const physicsWidth = Math.max(1, Math.round(rtWidth / ClarityController.PHYSICS_DOWNSAMPLE_FACTOR));
-        const physicsHeight = Math.max(1, Math.round(rtHeight / ClarityController.PHYSICS_DOWNSAMPLE_FACTOR));
+        const target = new THREE.WebGLRenderTarget(width, height, { minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, format: THREE.RGBAFormat, type: THREE.UnsignedByteType, stencilBuffer: false });
+        const data = new Uint8Array(width * height * 4);
+        const oldRenderTarget = this.renderer.getRenderTarget();
+        this.snapshotMaterial.uniforms.uPhysicsState.value = source.texture;
+        this.renderer.setRenderTarget(target);
+        this.renderer.render(this.snapshotScene, this.camera);
+        this.renderer.readRenderTargetPixels(target, 0, 0, width, height, data);
+        this.renderer.setRenderTarget(oldRenderTarget);
+        target.dispose();
 
-        this.mainMaterial.uniforms.uResolution.value.set(rtWidth, rtHeight);
-        this.copyMaterial.uniforms.uResolution.value.set(rtWidth, rtHeight);
-        this.physicsMaterial.uniforms.uResolution.value.set(physicsWidth, physicsHeight);
-        this.blurMaterial.uniforms.uResolution.value.set(downsampledWidth, downsampledHeight);
-        
-        this.physicsRenderTargetA.setSize(physicsWidth, physicsHeight);
-        this.physicsRenderTargetB.setSize(physicsWidth, physicsHeight);
-        this.sceneRenderTarget.setSize(rtWidth, rtHeight);
-        this.blurRenderTargetA.setSize(downsampledWidth, downsampledHeight);
-        this.blurRenderTargetB.setSize(downsampledWidth, downsampledHeight);
-        
-        this._updateBrushUniforms(rtWidth, rtHeight);
+        const pixels = { data, width, height };
+        this.lastSnapshot = pixels;
+        this.lastSnapshotTime = Date.now();
+        return pixels;
+    }
 
-        if (!this.hasSizedOnce) {
-            console.log(`Clarity: Canvas sized to ${width}x${height} (Render targets: ${rtWidth}x${rtHeight}).`);
-            this.hasSizedOnce = true;
-            this._tryStartAnimation();
-        }
+    private _createPixelsTexture({ data, width, height }: PhysicsPixels) {
+        // Already in GL row order, so no flip on upload.
+        const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat, THREE.UnsignedByteType);
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.needsUpdate = true;
+        return texture;
     }
-    
-    public async loadMedia(mediaType: 'image' | 'video' | 'gif', imageUrl?: string, videoUrl?: string, gifUrl?: string) {
-        const type = mediaType;
-        const src = type === 'image' ? imageUrl : (type === 'video' ? videoUrl : gifUrl);
-        
-        if (!src || (this.mediaState.type === type && this.mediaState.src === src)) return;
-        
-        this.isMediaReady = false;
-        this.loadMediaRequestId++;
-        const currentRequestId = this.loadMediaRequestId;
-        this.mediaState = { loading: true, type, src };
-        this.onError(null);
-        this.onMediaLoaded(null);
-        this._cleanupPreviousMedia();
 
+    /** Restores a snapshot from `getStateSnapshot`, holding the animation loop until it is applied. */
+    public async restoreState(snapshot: string) {
+        this.isRestorePending = true;
+        this.lastSnapshot = snapshot;
+        this.lastSnapshotTime = Date.now();
         try {
-            let result: { texture: THREE.Texture, resolution: THREE.Vector2 };
-            let shouldResize = false;
-
-            if (type === 'image' && imageUrl) {
-                result = await this._loadImageTexture(imageUrl);
-                this.onMediaLoaded(result.resolution.clone());
-                shouldResize = true;
-            } else if (type === 'video' && videoUrl) {
-                result = await this._loadVideoTexture(videoUrl);
-                this.onMediaLoaded(result.resolution.clone());
-            } else if (type === 'gif' && gifUrl) {
-                result = await this._loadGifTexture(gifUrl);
-                this.onMediaLoaded(result.resolution.clone());
-                shouldResize = true;
+            const image = new Image();
+            image.src = snapshot;
+            await image.decode();
+            if (this.isCancelled) return;
+            const texture = new THREE.Texture(image);
+            texture.needsUpdate = true;
+            if (this.animationFrameId !== null) {
+                this._writePhysicsState(texture);
             } else {
-                throw new Error("No valid media source provided.");
-            }
-            
-            if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
-                 result.texture.dispose();
-                 return;
-            }
-            
-            if (shouldResize) {
-                result = this._resizeTextureOnGPU(result.texture, result.resolution);
-            }
-            
-            console.log(`Clarity: Media loaded (${result.resolution.x}x${result.resolution.y}).`);
-            this.copyMaterial.uniforms.uTexture.value = result.texture;
-            this.copyMaterial.uniforms.uImageResolution.value.copy(result.resolution);
-            
-            this.isMediaReady = true;
-            this._tryStartAnimation();
-
-        } catch (error) {
-            if (this.isCancelled || currentRequestId !== this.loadMediaRequestId) {
-                return;
+                this.pendingRestore?.dispose();
+                this.pendingRestore = texture;
             }
-            this.isMediaReady = false;
-            const errorMessage = (error instanceof Error) ? error.message : String(error);
-            console.error(`Clarity Component Error: ${errorMessage}`);
-            this.onError(errorMessage);
-            this._cleanupPreviousMedia();
+        } catch {
+            console.warn("Clarity: Ignoring an unreadable wipe state snapshot.");
         } finally {
-            if (!this.isCancelled && currentRequestId === this.loadMediaRequestId) {
-                this.mediaState.loading = false;
-            }
+            this.isRestorePending = false;
+            if (!this.isCancelled) this._tryStartAnimation();
         }
     }
-    
-    private _tryStartAnimation() {
-        if (this.hasSizedOnce && this.isMediaReady && !this.isPaused) {
-            console.log("Clarity: All conditions met. Starting animation loop.");
-            this.start();
+
+    private _writePhysicsState(texture: THREE.Texture) {
+        this.restoreMaterial.uniforms.uSnapshot.value = texture;
+
+        const oldRenderTarget = this.renderer.getRenderTarget();
+        for (const target of [this.physicsRenderTargetA, this.physicsRenderTargetB]) {
+            this.renderer.setRenderTarget(target);
+            this.renderer.render(this.restoreScene, this.camera);
         }
+        this.renderer.setRenderTarget(oldRenderTarget);
+
+        this.restoreMaterial.uniforms.uSnapshot.value = null;
+        texture.dispose();
+        console.log("Clarity: Wipe state restored.");
     }
 
     public start() { 
-        if (this.animationFrameId !== null || this.isPaused) return;
+        if (this.animationFrameId !== null || this.isPaused || this.isContextLost) return;
         this.lastInteractionTime = Date.now();
+        // Don't count time spent paused or loading as simulation time.
+        this.lastFrameTime = 0;
+        this.stepAccumulator = 0;
         this._animate(); 
     }
 
@@ -549,14 +3316,17 @@ class ClarityController {
         if (this.isPaused || this.isCancelled) return;
         console.log("Clarity: Pausing animation.");
         this.isPaused = true;
-        if (this.animationFrameId !== null) {
-            if (this.isIdle) {
-                clearTimeout(this.animationFrameId);
-            } else {
-                cancelAnimationFrame(this.animationFrameId);
-            }
-            this.animationFrameId = null;
+        this._cancelFrame();
+    }
+
+    private _cancelFrame() {
+        if (this.animationFrameId === null) return;
+        if (this.isIdle) {
+            clearTimeout(this.animationFrameId);
+        } else {
+            cancelAnimationFrame(this.animationFrameId);
         }
+        this.animationFrameId = null;
     }
 
     public resume() {
@@ -566,6 +3336,46 @@ class ClarityController {
         this._tryStartAnimation();
     }
 
+    /** Freezes video, animated images and the playlist timer; the glass keeps simulating. */
+    public pauseMedia() {
+        if (this.isMediaPaused) return;
+        this.isMediaPaused = true;
+        this.mediaPausedAt = performance.now();
+        this.videoElement?.pause();
+        this.animatedImage?.pause();
+    }
+
+    public playMedia() {
+        if (!this.isMediaPaused) return;
+        this.isMediaPaused = false;
+        const video = this.videoElement;
+        if (video && !this.isVideoWaitingForReveal) {
+            if (this.mediaState.type === 'video') {
+                // A clip stopped at its end point starts over.
+                const { start, end } = this._getVideoRange(video);
+                if (video.currentTime >= end) video.currentTime = start;
+            }
+            this._playVideo(video).catch(() => {});
+        }
+        this.animatedImage?.play();
+        if (this.playlist) {
+            // Resume the slide where it left off rather than jumping to the next one.
+            const pausedFor = performance.now() - this.mediaPausedAt;
+            this.playlist.slideStartTime += pausedFor;
+            if (this.playlist.transitionStartTime !== null) this.playlist.transitionStartTime += pausedFor;
+        }
+        this.lastInteractionTime = Date.now();
+    }
+
+    // Still media can drop to the idle frame rate without visibly stuttering.
+    private _isMediaStill() {
+        const type = this.mediaState.type;
+        if (['image', 'text', 'svg', 'children'].includes(type)) return true;
+        if (type === 'gif') return !this.animatedImage || this.animatedImage.canIdle(ClarityController.IDLE_FRAME_INTERVAL);
+        if (type === 'video') return !this.videoElement || this.videoElement.paused;
+        return false;
+    }
+
     public setErrorState(hasError: boolean) {
         if (this.canvas) {
             this.canvas.style.opacity = hasError ? '0.2' : '1';
@@ -573,21 +3383,39 @@ class ClarityController {
     }
 
     public dispose() {
+        // Capture the wipe state while the render targets still exist.
+        this._saveState();
+        window.removeEventListener('pagehide', this._handlePageHide);
+        this._removeContextLossHandling();
+
         this.isCancelled = true;
         this.pause();
         
         this._removePointerEvents();
+        this._stopOrientationListener();
         this._cleanupPreviousMedia();
+        this._cleanupMask();
+        this._cleanupEtch();
+        if (this.contentResizeTimer) clearTimeout(this.contentResizeTimer);
+        if (this.contentCaptureTimer) clearTimeout(this.contentCaptureTimer);
+        if (this.imageUpgradeTimer) clearTimeout(this.imageUpgradeTimer);
+        this._clearMediaRetry();
+        this.contentObserver?.disconnect();
+        this.pendingRestore?.dispose();
         this.planeGeometry.dispose();
         this.mainMaterial.dispose();
         this.copyMaterial.dispose();
         this.physicsMaterial.dispose();
         this.blurMaterial.dispose();
-        this.physicsRenderTargetA.dispose();
-        this.physicsRenderTargetB.dispose();
-        this.sceneRenderTarget.dispose();
-        this.blurRenderTargetA.dispose();
-        this.blurRenderTargetB.dispose();
+        this.kawaseDownMaterial.dispose();
+        this.kawaseUpMaterial.dispose();
+        this.scatterMaterial.dispose();
+        this.reduceMaterial.dispose();
+        this.snapshotMaterial.dispose();
+        this.restoreMaterial.dispose();
+        this.dropletMaterial.dispose();
+        this.dropletGeometry.dispose();
+        this._disposeRenderTargets();
     
         this.renderer.forceContextLoss();
         this.renderer.dispose();
@@ -597,18 +3425,19 @@ class ClarityController {
         }
     }
     
-    private _resizeTextureOnGPU(sourceTexture: THREE.Texture, sourceResolution: THREE.Vector2): { texture: THREE.Texture, resolution: THREE.Vector2 } {
+    // Scale (at most 1) that shrinks media to just cover the canvas; 1 before the first layout.
+    private _getCoverDownscale(sourceResolution: THREE.Vector2) {
         const canvasSize = new THREE.Vector2();
         this.renderer.getSize(canvasSize);
 
         if (!this.hasSizedOnce || canvasSize.x === 0) {
-            return { texture: sourceTexture, resolution: sourceResolution };
+            return 1.0;
         }
         
         const targetSize = canvasSize.multiplyScalar(this.pixelRatio);
 
         if (sourceResolution.x <= targetSize.x && sourceResolution.y <= targetSize.y) {
-            return { texture: sourceTexture, resolution: sourceResolution };
+            return 1.0;
         }
 
         const canvasAspect = targetSize.x / targetSize.y;
@@ -621,7 +3450,11 @@ class ClarityController {
             scale = targetSize.y / sourceResolution.y;
         }
         
-        scale = Math.min(scale, 1.0);
+        return Math.min(scale, 1.0);
+    }
+
+    private _resizeTextureOnGPU(sourceTexture: THREE.Texture, sourceResolution: THREE.Vector2): { texture: THREE.Texture, resolution: THREE.Vector2 } {
+        const scale = this._getCoverDownscale(sourceResolution);
 
         if (scale >= 0.99) {
             return { texture: sourceTexture, resolution: sourceResolution };
@@ -675,18 +3508,25 @@ class ClarityController {
     }
 
     private _animate = () => {
-        if (this.isCancelled || this.isPaused) return;
+        if (this.isCancelled || this.isPaused || this.isContextLost) return;
 
-        if (this.mediaState.type === 'gif' && this.copyMaterial.uniforms.uTexture.value) {
-            this.copyMaterial.uniforms.uTexture.value.needsUpdate = true;
+        if (this.playlist) {
+            this._advancePlaylist(performance.now());
+        } else {
+            this.animatedImage?.update(performance.now());
+            this._enforceVideoRange();
         }
         
         const now = Date.now();
         const timeSinceLastInteraction = now - this.lastInteractionTime;
         const wasIdle = this.isIdle;
 
-        this.isIdle = !this.isMouseActive &&
-                      this.mediaState.type === 'image' &&
+        this.isIdle = !this._hasActivePointers() &&
+                      !this._hasScriptedWork() &&
+                      !this.droplets.some(d => d.running) &&
+                      this.props.surfacePattern !== 'rain' &&
+                      !this._isKenBurnsActive() &&
+                      this._isMediaStill() &&
                       timeSinceLastInteraction > ClarityController.IDLE_TIMEOUT;
         
         if (this.isIdle) {
@@ -697,11 +3537,22 @@ class ClarityController {
             this.animationFrameId = requestAnimationFrame(this._animate);
         }
 
-        this._updateSmoothedValues();
-        this._renderPhysicsPass();
+        const frameTime = performance.now();
+        const deltaTime = this.lastFrameTime > 0 ? frameTime - this.lastFrameTime : ClarityController.FIXED_STEP;
+        this.lastFrameTime = frameTime;
+
+        this._updateSmoothedValues(deltaTime);
+        const steps = this._consumeFixedSteps(deltaTime);
+        if (steps > 0) this._advanceScriptedAnimations(frameTime);
+        for (let step = 0; step < steps; step++) {
+            this._stepDroplets();
+            this._renderPhysicsPass(step, steps);
+        }
+        this._updatePhysicsSummary();
         
         if (this.copyMaterial.uniforms.uTexture.value) {
             this._renderSceneAndBlurPasses();
+            this._renderDropletPass();
             this._renderMainPass();
         } else {
             this.renderer.setRenderTarget(null);
@@ -709,32 +3560,93 @@ class ClarityController {
         }
     }
 
-    private _updatePointerPosition = (clientX: number, clientY: number) => {
+    private _updatePointerPosition = (event: PointerEvent) => {
         const rect = this.canvas.getBoundingClientRect();
-        const physicalX = (clientX - rect.left) * this.pixelRatio;
-        const physicalY = (rect.height - (clientY - rect.top)) * this.pixelRatio;
-        this.updatePointer(physicalX, physicalY, true);
+        const physicalX = (event.clientX - rect.left) * this.pixelRatio;
+        const physicalY = (rect.height - (event.clientY - rect.top)) * this.pixelRatio;
+        // Hovering mice report zero pressure; treat them as a neutral-width brush.
+        const pressure = event.pointerType === 'mouse' ? 0.5 : event.pressure;
+        this.updatePointer(physicalX, physicalY, true, event.pointerId, pressure);
     };
 
-    private _handleMouseMove = (event: MouseEvent) => this._updatePointerPosition(event.clientX, event.clientY);
-    private _handleMouseLeave = () => this.updatePointer(0, 0, false);
-    private _handleTouchMove = (event: TouchEvent) => { if (event.touches.length > 0) this._updatePointerPosition(event.touches[0].clientX, event.touches[0].clientY); };
-    private _handleTouchEnd = () => this.updatePointer(0, 0, false);
+    private _handlePointerDown = (event: PointerEvent) => {
+        if (this.needsOrientationPermission) this._requestOrientationPermission();
+        this._resumeBlockedVideo();
+        this._updatePointerPosition(event);
+    };
+    private _handlePointerMove = (event: PointerEvent) => {
+        // Mice wipe on hover; touch and pen only wipe while in contact.
+        if (event.pointerType !== 'mouse' && event.buttons === 0) return;
+        this._updatePointerPosition(event);
+    };
+    private _handlePointerUp = (event: PointerEvent) => {
+        // Touch only grants user activation once the finger lifts.
+        this._resumeBlockedVideo();
+        if (event.pointerType !== 'mouse') this.updatePointer(0, 0, false, event.pointerId);
+    };
+    private _handlePointerRelease = (event: PointerEvent) => this.updatePointer(0, 0, false, event.pointerId);
 
     private _removePointerEvents() {
-        this.canvas.removeEventListener('mousemove', this._handleMouseMove);
-        this.canvas.removeEventListener('mouseleave', this._handleMouseLeave);
-        this.canvas.removeEventListener('touchmove', this._handleTouchMove);
-        this.canvas.removeEventListener('touchend', this._handleTouchEnd);
-        this.canvas.removeEventListener('touchcancel', this._handleTouchEnd);
+        this.container.style.touchAction = '';
+        this.container.removeEventListener('pointerdown', this._handlePointerDown);
+        this.container.removeEventListener('pointermove', this._handlePointerMove);
+        this.container.removeEventListener('pointerup', this._handlePointerUp);
+        this.container.removeEventListener('pointercancel', this._handlePointerRelease);
+        this.container.removeEventListener('pointerleave', this._handlePointerRelease);
     }
     
-    private _updateSmoothedValues() {
-        const lerpFactor = 0.075;
+    // Returns how many fixed physics steps fit into the elapsed time, carrying the remainder over.
+    private _consumeFixedSteps(deltaTime: number) {
+        const { FIXED_STEP, MAX_SUBSTEPS } = ClarityController;
+        this.stepAccumulator += deltaTime;
+        const steps = Math.min(MAX_SUBSTEPS, Math.floor(this.stepAccumulator / FIXED_STEP));
+        this.stepAccumulator -= steps * FIXED_STEP;
+        // Past the cap, drop the backlog rather than fast-forwarding over the next frames.
+        if (steps === MAX_SUBSTEPS) this.stepAccumulator = Math.min(this.stepAccumulator, FIXED_STEP);
+        return steps;
+    }
+
+    // Exponential decay keeps smoothing speed independent of the frame rate.
+    private _smoothingFactor(rate: number, deltaTime: number) {
+        return 1 - Math.exp(-rate * deltaTime / 1000);
+    }
+
+    private _updateSmoothedValues(deltaTime: number) {
+        const lerpFactor = this._smoothingFactor(ClarityController.PROP_SMOOTHING_RATE, deltaTime);
         this.animatedProps.refrostRate = THREE.MathUtils.lerp(this.animatedProps.refrostRate, this.targetProps.refrostRate, lerpFactor);
         this.animatedProps.brushSize = THREE.MathUtils.lerp(this.animatedProps.brushSize, this.targetProps.brushSize, lerpFactor);
+        this.animatedProps.blurRadius = THREE.MathUtils.lerp(this.animatedProps.blurRadius, this.targetProps.blurRadius, lerpFactor);
+        this.animatedProps.surfaceStrength = THREE.MathUtils.lerp(this.animatedProps.surfaceStrength, this.targetProps.surfaceStrength, lerpFactor);
+        this.animatedProps.frostOpacity = THREE.MathUtils.lerp(this.animatedProps.frostOpacity, this.targetProps.frostOpacity, lerpFactor);
+        for (const key of Object.keys(DEFAULT_GRADE) as (keyof typeof DEFAULT_GRADE)[]) {
+            this.animatedProps[key] = THREE.MathUtils.lerp(this.animatedProps[key], this.targetProps[key], lerpFactor);
+        }
+        this.animatedProps.frostTint.lerp(this.targetProps.frostTint, lerpFactor);
+        this.animatedProps.vignetteColor.lerp(this.targetProps.vignetteColor, lerpFactor);
+        
+        for (const key of Object.keys(DEFAULT_PHYSICS) as (keyof ClarityPhysics)[]) {
+            this.animatedProps[key] = THREE.MathUtils.lerp(this.animatedProps[key], this.targetProps[key], lerpFactor);
+        }
         
-        this.physicsMaterial.uniforms.uRefrostRate.value = this.animatedProps.refrostRate;
+        const uniforms = this.physicsMaterial.uniforms;
+        uniforms.uRefrostRate.value = this.animatedProps.refrostRate;
+        uniforms.uDripRetention.value = this.animatedProps.dripRetention;
+        uniforms.uWaterEvaporation.value = this.animatedProps.waterEvaporation;
+        uniforms.uDripClearFactor.value = this.animatedProps.dripClearFactor;
+        uniforms.uFrostToWaterConversion.value = this.animatedProps.frostToWaterConversion;
+        const mainUniforms = this.mainMaterial.uniforms;
+        mainUniforms.uSurfaceStrength.value = this.animatedProps.surfaceStrength;
+        mainUniforms.uFrostOpacity.value = this.animatedProps.frostOpacity;
+        mainUniforms.uFrostTintOpacity.value = this.animatedProps.frostTintOpacity;
+        mainUniforms.uFrostSaturation.value = this.animatedProps.frostSaturation;
+        mainUniforms.uFrostContrast.value = this.animatedProps.frostContrast;
+        mainUniforms.uRevealBrightness.value = this.animatedProps.revealBrightness;
+        mainUniforms.uRevealSaturation.value = this.animatedProps.revealSaturation;
+        mainUniforms.uRevealContrast.value = this.animatedProps.revealContrast;
+        mainUniforms.uVignetteStrength.value = this.animatedProps.vignetteStrength;
+
+        this.gravity.lerp(this.targetGravity, lerpFactor);
+        if (this.gravity.lengthSq() > 0) this.gravity.normalize();
         
         const size = new THREE.Vector2();
         this.renderer.getSize(size);
@@ -744,34 +3656,332 @@ class ClarityController {
             this._updateBrushUniforms(physicalWidth, physicalHeight);
         }
 
-        this.smoothedMouse.lerp(this.mousePosition, 0.1);
+        const pointerFactor = this._smoothingFactor(ClarityController.POINTER_SMOOTHING_RATE, deltaTime);
+        for (const pointer of this.pointers) {
+            if (pointer.active) pointer.smoothed.lerp(pointer.position, pointerFactor);
+        }
+    }
+
+    private _updateSheenUniforms() {
+        const points: THREE.Vector2[] = this.mainMaterial.uniforms.uBrushPoints.value;
+        const widths: number[] = this.mainMaterial.uniforms.uBrushWidths.value;
+        this.pointers.forEach((pointer, i) => {
+            points[i].copy(pointer.smoothed);
+            widths[i] = pointer.active ? pointer.width : 0.0;
+        });
+    }
+
+    // Strokes use the raw pointer path so fast swipes stay continuous and don't lag behind the finger.
+    // When a frame runs several physics steps, each step wipes its share of the pointer's movement.
+    private _updateStrokeUniforms(step: number, steps: number) {
+        const scale = ClarityController.PHYSICS_DOWNSAMPLE_FACTOR;
+        const points: THREE.Vector2[] = this.physicsMaterial.uniforms.uBrushPoints.value;
+        const prevPoints: THREE.Vector2[] = this.physicsMaterial.uniforms.uBrushPrevPoints.value;
+        const widths: number[] = this.physicsMaterial.uniforms.uBrushWidths.value;
+        this.pointers.forEach((pointer, i) => {
+            points[i].copy(pointer.previous).lerp(pointer.position, (step + 1) / steps).divideScalar(scale);
+            prevPoints[i].copy(pointer.previous).lerp(pointer.position, step / steps).divideScalar(scale);
+            widths[i] = pointer.active ? pointer.width : 0.0;
+            if (step === steps - 1) pointer.previous.copy(pointer.position);
+        });
+
+        const strokes = this.scriptedStrokes.splice(0, MAX_SCRIPTED_STROKES);
+        for (let i = 0; i < MAX_SCRIPTED_STROKES; i++) {
+            const stroke = strokes[i];
+            const slot = MAX_POINTERS + i;
+            if (stroke) {
+                points[slot].copy(stroke.to).divideScalar(scale);
+                prevPoints[slot].copy(stroke.from).divideScalar(scale);
+            }
+            widths[slot] = stroke ? stroke.width : 0.0;
+        }
     }
 
-    private _renderPhysicsPass() {
+    private _renderPhysicsPass(step: number, steps: number) {
         this.renderer.setRenderTarget(this.physicsRenderTargetB);
         this.physicsMaterial.uniforms.uPreviousFrame.value = this.physicsRenderTargetA.texture;
         
-        const physicsMouse = this.smoothedMouse.clone().divideScalar(ClarityController.PHYSICS_DOWNSAMPLE_FACTOR);
-        this.physicsMaterial.uniforms.uMouse.value.copy(physicsMouse);
-        this.physicsMaterial.uniforms.uIsMouseActive.value = this.isMouseActive ? 1.0 : 0.0;
+        this._updateStrokeUniforms(step, steps);
         
         this.renderer.render(this.physicsScene, this.camera);
         [this.physicsRenderTargetA, this.physicsRenderTargetB] = [this.physicsRenderTargetB, this.physicsRenderTargetA];
     }
     
+    /** Fraction (0-1) of the pane currently revealed, measured from the physics state. */
+    public getRevealProgress() {
+        this._readPhysicsSummary();
+        return this.revealProgress;
+    }
+
+    // Reduces the physics state to a REDUCE_SIZE grid of (revealed, water) averages on the CPU.
+    private _readPhysicsSummary() {
+        this.reduceMaterial.uniforms.uPhysicsState.value = this.physicsRenderTargetA.texture;
+        this.renderer.setRenderTarget(this.reduceRenderTarget);
+        this.renderer.render(this.reduceScene, this.camera);
+        this.renderer.readRenderTargetPixels(this.reduceRenderTarget, 0, 0, REDUCE_SIZE, REDUCE_SIZE, this.reducePixels);
+
+        let revealed = 0;
+        for (let i = 0; i < this.reducePixels.length; i += 4) {
+            revealed += this.reducePixels[i];
+        }
+        this.revealProgress = revealed / (255 * REDUCE_SIZE * REDUCE_SIZE);
+    }
+
+    private _updatePhysicsSummary() {
+        this._refreshRestoreSnapshot();
+        const { onRevealProgress, onRevealThreshold } = this.props;
+        const wantsProgress = !!(onRevealProgress || onRevealThreshold) || this.isVideoWaitingForReveal;
+        const wantsWater = this.props.droplets && this._mayHaveStandingWater();
+        if (!wantsProgress && !wantsWater) return;
+
+        // Readbacks stall the GPU pipeline, so only sample a few times per second.
+        const now = performance.now();
+        if (now - this.lastProgressCheckTime < ClarityController.REVEAL_PROGRESS_INTERVAL) return;
+        this.lastProgressCheckTime = now;
+
+        this._readPhysicsSummary();
+        if (wantsProgress) this._reportRevealProgress(this.revealProgress);
+        if (wantsWater) this._spawnDroplets();
+    }
+
+    // Water only appears where wiping removes frost, then evaporates. Once even a freshly
+    // wiped cell would have dried below the spawn level there is nothing to read back for,
+    // so an untouched pane never pays for droplets.
+    private _mayHaveStandingWater() {
+        const { waterEvaporation, frostToWaterConversion } = this.animatedProps;
+        if (waterEvaporation >= 1) return true;
+        if (waterEvaporation <= 0 || frostToWaterConversion <= ClarityController.DROPLET_SPAWN_WATER) return false;
+        const steps = Math.log(ClarityController.DROPLET_SPAWN_WATER / frostToWaterConversion) / Math.log(waterEvaporation);
+        return Date.now() - this.lastInteractionTime < steps * ClarityController.FIXED_STEP;
+    }
+
+    // A context can be lost while the tab is visible (GPU reset, too many contexts), so the
+    // snapshot it is restored from follows the wipes. Untouched panes never read back.
+    private _refreshRestoreSnapshot() {
+        const now = Date.now();
+        if (this.lastSnapshotTime >= this.lastInteractionTime) return;
+        if (now - this.lastSnapshotTime < ClarityController.SNAPSHOT_REFRESH_INTERVAL) return;
+        // Stamped even if the snapshot fails, so a failing readback isn't retried every frame.
+        this.lastSnapshotTime = now;
+        this._readPhysicsPixels();
+    }
+
+    private _reportRevealProgress(progress: number) {
+        const { onRevealProgress, onRevealThreshold, revealThreshold } = this.props;
+
+        if (onRevealProgress && Math.abs(progress - this.lastReportedProgress) >= ClarityController.REVEAL_PROGRESS_EPSILON) {
+            this.lastReportedProgress = progress;
+            onRevealProgress(progress);
+        }
+
+        if (!this.isAboveRevealThreshold && progress >= revealThreshold) {
+            this.isAboveRevealThreshold = true;
+            onRevealThreshold?.(progress);
+            this._startRevealedVideo();
+        } else if (this.isAboveRevealThreshold && progress < revealThreshold - ClarityController.REVEAL_THRESHOLD_HYSTERESIS) {
+            // Re-arm once the glass has refrosted noticeably below the threshold.
+            this.isAboveRevealThreshold = false;
+        }
+    }
+
+    // --- Droplets ---
+
+    // Beads condense where wiping has left water behind, a few cells per summary readback.
+    private _spawnDroplets() {
+        const { width, height } = this.physicsRenderTargetA;
+        const spawnProbability = this.animatedProps.waterToDripConversion * ClarityController.DROPLET_SPAWN_RATE;
+        for (let cell = 0; cell < REDUCE_SIZE * REDUCE_SIZE; cell++) {
+            if (this.droplets.length >= MAX_DROPLETS) return;
+            const water = this.reducePixels[cell * 4 + 1] / 255;
+            if (water < ClarityController.DROPLET_SPAWN_WATER || Math.random() > water * spawnProbability) continue;
+
+            const cellX = cell % REDUCE_SIZE;
+            const cellY = Math.floor(cell / REDUCE_SIZE);
+            const radius = (0.8 + Math.random() * 1.2) * this.props.dropletSize;
+            this.droplets.push({
+                position: new THREE.Vector2((cellX + Math.random()) / REDUCE_SIZE * width, (cellY + Math.random()) / REDUCE_SIZE * height),
+                mass: radius * radius,
+                speed: 0,
+                phase: Math.random() * Math.PI * 2,
+                running: false,
+            });
+        }
+    }
+
+    private _stepDroplets() {
+        const radii = this.physicsMaterial.uniforms.uTrailRadii.value as number[];
+        radii.fill(0.0);
+        if (!this.props.droplets) {
+            this.droplets = [];
+            return;
+        }
+
+        const { width, height } = this.physicsRenderTargetA;
+        const runMass = ClarityController.DROPLET_RUN_MASS * this.props.dropletSize * this.props.dropletSize;
+        const maxSpeed = Math.max(0.1, this.animatedProps.dripOffset);
+        const sideways = new THREE.Vector2(-this.gravity.y, this.gravity.x);
+        const starts = this.physicsMaterial.uniforms.uTrailStarts.value as THREE.Vector2[];
+        const ends = this.physicsMaterial.uniforms.uTrailEnds.value as THREE.Vector2[];
+        let trailCount = 0;
+
+        // 1. Merge touching beads; the bigger one absorbs the smaller.
+        for (let i = 0; i < this.droplets.length; i++) {
+            const a = this.droplets[i];
+            if (a.mass <= 0) continue;
+            for (let j = i + 1; j < this.droplets.length; j++) {
+                const b = this.droplets[j];
+                if (b.mass <= 0) continue;
+                const reach = (Math.sqrt(a.mass) + Math.sqrt(b.mass)) * 0.8;
+                if (a.position.distanceToSquared(b.position) > reach * reach) continue;
+                const [big, small] = a.mass >= b.mass ? [a, b] : [b, a];
+                big.position.lerp(small.position, small.mass / (big.mass + small.mass));
+                big.mass += small.mass;
+                big.running = big.running || small.running;
+                small.mass = 0;
+            }
+        }
+
+        // 2. Heavy beads run along gravity, shedding water into a streak as they go.
+        for (const droplet of this.droplets) {
+            if (droplet.mass <= 0) continue;
+            if (!droplet.running && droplet.mass >= runMass) droplet.running = true;
+
+            if (!droplet.running) {
+                droplet.mass -= ClarityController.DROPLET_EVAPORATION;
+                continue;
+            }
+
+            const from = droplet.position.clone();
+            droplet.speed = Math.min(maxSpeed, droplet.speed + ClarityController.DROPLET_ACCELERATION);
+            droplet.phase += 0.15;
+            droplet.position
+                .addScaledVector(this.gravity, droplet.speed)
+                .addScaledVector(sideways, Math.sin(droplet.phase) * droplet.speed * 0.25);
+            droplet.mass *= this.animatedProps.dripRetention;
+            if (droplet.mass < runMass * 0.3) {
+                droplet.running = false;
+                droplet.speed = 0;
+            }
+
+            if (trailCount < MAX_TRAILS) {
+                starts[trailCount].copy(from);
+                ends[trailCount].copy(droplet.position);
+                radii[trailCount] = Math.sqrt(droplet.mass) * 0.7;
+                trailCount++;
+            }
+        }
+
+        this.droplets = this.droplets.filter(d =>
+            d.mass > 0.2 &&
+            d.position.x > -4 && d.position.x < width + 4 &&
+            d.position.y > -4 && d.position.y < height + 4
+        );
+    }
+
+    private _renderDropletPass() {
+        const count = this.droplets.length;
+        this.mainMaterial.uniforms.uHasDroplets.value = count > 0 ? 1.0 : 0.0;
+        if (count === 0) return;
+
+        const { width, height } = this.physicsRenderTargetA;
+        const positions = this.dropletGeometry.getAttribute('position') as THREE.BufferAttribute;
+        const radii = this.dropletGeometry.getAttribute('aRadius') as THREE.BufferAttribute;
+        this.droplets.forEach((droplet, i) => {
+            positions.setXYZ(i, droplet.position.x / width * 2 - 1, droplet.position.y / height * 2 - 1, 0);
+            radii.setX(i, Math.sqrt(droplet.mass));
+        });
+        positions.needsUpdate = true;
+        radii.needsUpdate = true;
+        this.dropletGeometry.setDrawRange(0, count);
+
+        const oldClearColor = this.renderer.getClearColor(new THREE.Color());
+        const oldClearAlpha = this.renderer.getClearAlpha();
+        this.renderer.setRenderTarget(this.dropletRenderTarget);
+        this.renderer.setClearColor(0x000000, 0);
+        this.renderer.clear();
+        this.renderer.render(this.dropletScene, this.camera);
+        this.renderer.setClearColor(oldClearColor, oldClearAlpha);
+        this.mainMaterial.uniforms.uDroplets.value = this.dropletRenderTarget.texture;
+    }
+
     private _renderSceneAndBlurPasses() {
+        this._updateKenBurns();
         this.renderer.setRenderTarget(this.sceneRenderTarget);
         this.renderer.render(this.copyScene, this.camera);
-        
-        this.renderer.setRenderTarget(this.blurRenderTargetA);
-        this.blurMaterial.uniforms.uInput.value = this.sceneRenderTarget.texture;
-        this.blurMaterial.uniforms.uDirection.value.set(1.0, 0.0);
-        this.renderer.render(this.blurScene, this.camera);
 
+        // blurRadius is in CSS pixels; convert it to texels of the downsampled blur targets.
+        const radius = Math.max(0, this.animatedProps.blurRadius * this.pixelRatio / this.downsampleFactor);
+        switch (this.props.blurAlgorithm) {
+            case 'kawase':
+                this._renderKawaseBlur(radius);
+                break;
+            case 'scatter':
+                this._renderScatterBlur(radius);
+                break;
+            case 'gaussian':
+            default:
+                this._renderGaussianBlur(radius);
+                break;
+        }
+    }
+
+    // Repeated Gaussians add in quadrature, so large radii split into sqrt(n)-sized passes.
+    private _renderGaussianBlur(radius: number) {
+        const { GAUSSIAN_PASS_RADIUS, MAX_GAUSSIAN_ITERATIONS, MAX_GAUSSIAN_TAPS } = ClarityController;
+        const iterations = THREE.MathUtils.clamp(Math.ceil((radius / GAUSSIAN_PASS_RADIUS) ** 2), 1, MAX_GAUSSIAN_ITERATIONS);
+        const passRadius = radius / Math.sqrt(iterations);
+        const uniforms = this.blurMaterial.uniforms;
+        uniforms.uRadius.value = passRadius;
+        uniforms.uTaps.value = THREE.MathUtils.clamp(Math.ceil(passRadius), 1, MAX_GAUSSIAN_TAPS);
+
+        let input = this.sceneRenderTarget.texture;
+        for (let i = 0; i < iterations; i++) {
+            this.renderer.setRenderTarget(this.blurRenderTargetA);
+            uniforms.uInput.value = input;
+            uniforms.uDirection.value.set(1.0, 0.0);
+            this.renderer.render(this.blurScene, this.camera);
+
+            this.renderer.setRenderTarget(this.blurRenderTargetB);
+            uniforms.uInput.value = this.blurRenderTargetA.texture;
+            uniforms.uDirection.value.set(0.0, 1.0);
+            this.renderer.render(this.blurScene, this.camera);
+            input = this.blurRenderTargetB.texture;
+        }
+    }
+
+    // Each level doubles the reach, and the sample offset fine-tunes the radius between levels.
+    private _renderKawaseBlur(radius: number) {
+        const levels = THREE.MathUtils.clamp(Math.round(Math.log2(Math.max(radius, 1))), 1, ClarityController.MAX_KAWASE_LEVELS);
+        const offset = THREE.MathUtils.clamp(radius / 2 ** levels, 0, 2);
+        const chain = [this.blurRenderTargetA, ...this.kawaseRenderTargets.slice(0, levels)];
+        const down = this.kawaseDownMaterial.uniforms;
+        const up = this.kawaseUpMaterial.uniforms;
+        down.uOffset.value = offset;
+        up.uOffset.value = offset;
+
+        let input: THREE.WebGLRenderTarget = this.sceneRenderTarget;
+        for (const target of chain) {
+            this.renderer.setRenderTarget(target);
+            down.uInput.value = input.texture;
+            down.uTexelSize.value.set(1 / input.width, 1 / input.height);
+            this.renderer.render(this.kawaseDownScene, this.camera);
+            input = target;
+        }
+        for (let i = chain.length - 2; i >= -1; i--) {
+            const target = i >= 0 ? chain[i] : this.blurRenderTargetB;
+            this.renderer.setRenderTarget(target);
+            up.uInput.value = input.texture;
+            up.uTexelSize.value.set(1 / input.width, 1 / input.height);
+            this.renderer.render(this.kawaseUpScene, this.camera);
+            input = target;
+        }
+    }
+
+    private _renderScatterBlur(radius: number) {
         this.renderer.setRenderTarget(this.blurRenderTargetB);
-        this.blurMaterial.uniforms.uInput.value = this.blurRenderTargetA.texture;
-        this.blurMaterial.uniforms.uDirection.value.set(0.0, 1.0);
-        this.renderer.render(this.blurScene, this.camera);
+        this.scatterMaterial.uniforms.uInput.value = this.sceneRenderTarget.texture;
+        this.scatterMaterial.uniforms.uRadius.value = radius;
+        this.renderer.render(this.scatterScene, this.camera);
     }
     
     private _renderMainPass() {
@@ -779,7 +3989,8 @@ class ClarityController {
         this.mainMaterial.uniforms.uPhysicsState.value = this.physicsRenderTargetA.texture;
         this.mainMaterial.uniforms.uSceneTexture.value = this.sceneRenderTarget.texture;
         this.mainMaterial.uniforms.uBlurredMap.value = this.blurRenderTargetB.texture;
-        this.mainMaterial.uniforms.uMouse.value.copy(this.smoothedMouse);
+        this._updateSheenUniforms();
+        this.mainMaterial.uniforms.uTime.value = (performance.now() / 1000) % ClarityController.SURFACE_TIME_WRAP;
         this.renderer.render(this.mainScene, this.camera);
     }
 
@@ -790,31 +4001,67 @@ class ClarityController {
     }
 
     private _cleanupPreviousMedia() {
+        this.contentCaptureCanvas = null;
+        // The texture is the copy material's, disposed below.
+        this.animatedImage?.dispose();
+        this.animatedImage = null;
         if (this.videoElement) {
-            this.videoElement.pause();
-            this.videoElement.removeAttribute('src');
-            this.videoElement.load();
+            this._detachVideoEvents(this.videoElement);
+            this._releaseVideo(this.videoElement);
             this.videoElement = null;
         }
+        this.isVideoWaitingForReveal = false;
+        this.isVideoAutoplayBlocked = false;
+        this.isVideoPassFinished = false;
         if (this.copyMaterial.uniforms.uTexture.value) {
             this.copyMaterial.uniforms.uTexture.value.dispose();
             this.copyMaterial.uniforms.uTexture.value = null;
         }
+        this._cleanupPlaylist();
+        this.cameraStream?.getTracks().forEach(track => track.stop());
+        this.cameraStream = null;
+    }
+
+    private _releaseVideo(video: HTMLVideoElement) {
+        video.pause();
+        video.srcObject = null;
+        video.removeAttribute('src');
+        video.load();
     }
     
+    // Decodes through createImageBitmap where available, which keeps large images off the main thread.
     private async _loadImageTexture(imageUrl: string): Promise<{ texture: THREE.Texture, resolution: THREE.Vector2 }> {
-        const loader = new THREE.TextureLoader();
-        loader.setCrossOrigin("Anonymous");
-        const texture = await loader.loadAsync(imageUrl).catch(() => {
-             throw new Error(`Failed to load image. Check CORS policy or URL: ${imageUrl}`);
-        });
+        const blob = await fetchMedia(imageUrl, 'image');
+        let texture: THREE.Texture;
+        try {
+            if (typeof createImageBitmap === 'function') {
+                // Bitmaps ignore texture.flipY, so they are flipped while decoding instead.
+                const bitmap = await createImageBitmap(blob, { imageOrientation: 'flipY', premultiplyAlpha: 'none' });
+                texture = new THREE.Texture(bitmap);
+                texture.flipY = false;
+                texture.addEventListener('dispose', () => bitmap.close());
+            } else {
+                const objectUrl = URL.createObjectURL(blob);
+                const image = new Image();
+                image.src = objectUrl;
+                try {
+                    await image.decode();
+                } finally {
+                    URL.revokeObjectURL(objectUrl);
+                }
+                texture = new THREE.Texture(image);
+            }
+        } catch {
+            throw new ClarityMediaError('decode', `Failed to decode image: ${imageUrl}`, imageUrl);
+        }
+        texture.needsUpdate = true;
 
         if (this.isCancelled) {
             texture.dispose();
             throw new Error('Component unmounted during texture load');
         }
 
-        const image = texture.image as HTMLImageElement;
+        const image = texture.image as HTMLImageElement | ImageBitmap;
         
         return { 
             texture, 
@@ -822,54 +4069,79 @@ class ClarityController {
         };
     }
 
-    private async _loadGifTexture(gifUrl: string): Promise<{ texture: THREE.Texture, resolution: THREE.Vector2 }> {
-        const loader = new THREE.ImageLoader();
-        loader.setCrossOrigin("Anonymous");
-
-        const image = await loader.loadAsync(gifUrl).catch(() => {
-            throw new Error(`Failed to load GIF. Check CORS policy or URL: ${gifUrl}`);
-        });
+    // Frames are decoded on the CPU and drawn into a canvas already downscaled to the cover size,
+    // so large GIFs stay animated instead of being baked to one frame on the GPU.
+    private async _loadGifTexture(gifUrl: string): Promise<{ texture: THREE.Texture, resolution: THREE.Vector2, animation: AnimatedImage }> {
+        const blob = await fetchMedia(gifUrl, 'GIF');
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        const contentType = blob.type;
 
         if (this.isCancelled) {
             throw new Error('Component unmounted during GIF load');
         }
-        
-        const texture = new THREE.Texture(image);
-        texture.colorSpace = THREE.SRGBColorSpace;
-        texture.needsUpdate = true; // Initial upload
-        
-        return { 
-            texture, 
-            resolution: new THREE.Vector2(image.width, image.height)
-        };
+
+        const source = await createFrameSource(bytes, contentType).catch(() => {
+            throw new ClarityMediaError('decode', `Failed to decode animated image: ${gifUrl}`, gifUrl);
+        });
+        const resolution = new THREE.Vector2(source.width, source.height);
+        const scale = this._getCoverDownscale(resolution);
+        const animation = new AnimatedImage(source, Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+        try {
+            await animation.start();
+        } catch (error) {
+            animation.dispose();
+            throw error;
+        }
+        if (this.isMediaPaused) animation.pause();
+        return { texture: animation.texture, resolution, animation };
     }
     
-    private _loadVideoTexture(videoUrl: string): Promise<{ texture: THREE.VideoTexture, resolution: THREE.Vector2 }> {
+    private _loadVideoTexture(videoUrl: string, autoplay = true, startTime = 0): Promise<{ texture: THREE.VideoTexture, resolution: THREE.Vector2, video: HTMLVideoElement }> {
         return new Promise((resolve, reject) => {
             const video = document.createElement('video');
-            this.videoElement = video;
+
+            const onLoadedMetadata = () => {
+                // Seeking before the first canplay means the first decoded frame is the start frame.
+                if (startTime > 0) video.currentTime = Math.min(startTime, video.duration || startTime);
+            };
 
             const onCanPlay = () => {
-                video.play().then(() => {
-                    if (this.isCancelled) return reject(new Error('Component unmounted'));
+                // Preloaded playlist slides wait paused until their transition starts.
+                const ready = autoplay ? this._playVideo(video) : Promise.resolve(false);
+                ready.then(() => {
+                    if (this.isCancelled) {
+                        this._releaseVideo(video);
+                        return reject(new Error('Component unmounted'));
+                    }
                     cleanup();
                     resolve({ 
                         texture: new THREE.VideoTexture(video), 
-                        resolution: new THREE.Vector2(video.videoWidth, video.videoHeight)
+                        resolution: new THREE.Vector2(video.videoWidth, video.videoHeight),
+                        video,
                     });
-                }).catch(reject);
+                }).catch(error => {
+                    cleanup();
+                    this._releaseVideo(video);
+                    reject(toPlaybackFailure(error, videoUrl));
+                });
             };
 
             const onError = () => {
+                const code = video.error?.code;
                 cleanup();
-                reject(new Error(`Failed to load video. Check CORS policy or URL: ${videoUrl}`));
+                this._releaseVideo(video);
+                if (code === MediaError.MEDIA_ERR_NETWORK) return reject(new ClarityMediaError('network', `The connection dropped while loading the video: ${videoUrl}`, videoUrl));
+                if (code === MediaError.MEDIA_ERR_DECODE) return reject(new ClarityMediaError('decode', `Failed to decode video: ${videoUrl}`, videoUrl));
+                diagnoseMediaSource(videoUrl, 'video').then(reject);
             };
             
             const cleanup = () => {
+                video.removeEventListener('loadedmetadata', onLoadedMetadata);
                 video.removeEventListener('canplay', onCanPlay);
                 video.removeEventListener('error', onError);
             };
 
+            video.addEventListener('loadedmetadata', onLoadedMetadata);
             video.addEventListener('canplay', onCanPlay);
             video.addEventListener('error', onError);
             video.crossOrigin = "Anonymous";
@@ -934,41 +4206,170 @@ const useResizeObserver = (
 };
 
 // --- Main Framer Component ---
+/** Per-frame simulation constants for the physics pass. */
+export interface ClarityPhysics {
+  dripRetention: number; // streak fade, and mass kept by running droplets, per step
+  waterEvaporation: number;
+  waterToDripConversion: number; // how readily standing water beads up into droplets
+  dripClearFactor: number;
+  dripOffset: number; // top speed of running droplets, in physics pixels per step
+  frostToWaterConversion: number;
+}
+
+/** One slide of the 'playlist' media type. */
+export interface ClarityMediaItem {
+  type: 'image' | 'video' | 'gif';
+  url: string;
+  duration: number; // s on screen; 0 uses the default, or a video's own length
+  transition: 'crossfade' | 'wipe' | 'cut'; // how this item replaces the previous one
+}
+
+/** One candidate of a responsive 'image' source, like a `srcset` entry with a `w` descriptor. */
+export interface ClarityImageCandidate {
+  url: string;
+  width: number; // intrinsic width in px
+  type?: string; // MIME type such as 'image/avif'; candidates the browser can't decode are skipped
+}
+
 export interface ClarityProps {
-  mediaType: 'image' | 'video' | 'gif';
+  mediaType: 'image' | 'video' | 'gif' | 'text' | 'svg' | 'children' | 'playlist' | 'camera';
+  cameraFacing: 'user' | 'environment';
+  cameraMirror: boolean;
+  mediaStream?: MediaStream; // caller-supplied stream for 'camera' instead of getUserMedia
+  mediaItems: ClarityMediaItem[];
+  refrostOnChange: boolean;
   imageSource: 'upload' | 'link';
   imageUrl?: string;
   imageUrlLink?: string;
+  imageSrcSet: ClarityImageCandidate[]; // picked by rendered width; imageUrl is the fallback
   videoSource: 'upload' | 'link';
   videoUrl?: string;
   videoUrlLink?: string;
   gifSource: 'upload' | 'link';
   gifUrl?: string;
   gifUrlLink?: string;
+  maskSource: 'upload' | 'link';
+  maskUrl?: string;
+  maskUrlLink?: string;
+  text?: string;
+  textFontFamily: string;
+  textFontSize: number;
+  textFontWeight: number;
+  textColor: string;
+  textBackground: string;
+  textAlign: 'left' | 'center' | 'right';
+  svgMarkup?: string;
+  etchMode: 'none' | 'clear' | 'frost';
+  etchSource: 'text' | 'svg';
+  children?: React.ReactNode;
+  persistState: boolean;
+  persistStorage: 'local' | 'session';
+  persistKey: string;
+  initialState?: string;
+  onStateSnapshot?: (snapshot: string) => void;
   videoSound: boolean;
   videoVolume: number;
+  videoStartTime: number; // s
+  videoEndTime: number; // s; 0 plays to the end of the clip
+  videoLoop: boolean;
+  videoPlaybackRate: number;
+  videoAutoplay: 'load' | 'reveal'; // 'reveal' waits until revealThreshold of the glass is cleared
+  videoPoster?: string; // shown behind the glass while the video buffers
+  onVideoEnded?: () => void; // only when playback stops; looping never ends
+  placeholder: 'none' | 'color' | 'blurhash' | 'preview'; // shown frosted while media loads
+  placeholderColor: string;
+  placeholderBlurhash?: string;
+  placeholderPreview?: string; // URL of a low-res version of the media
+  onMediaReady?: (media: { mediaType: ClarityProps['mediaType'], width: number, height: number }) => void;
+  onMediaError?: (error: ClarityMediaError) => void; // after retries; 'autoplay' ones are non-fatal
+  onContextLost?: () => void; // the GPU was reclaimed; the pane pauses until it comes back
+  onContextRestored?: () => void;
+  onVideoTimeUpdate?: (currentTime: number, duration: number) => void;
   refrostRate: number;
   brushSize: number;
+  pressureSensitivity: boolean;
+  physics?: Partial<ClarityPhysics>;
+  gravityAngle: number;
+  tiltGravity: boolean;
+  droplets: boolean;
+  dropletSize: number;
   quality: 'auto' | 'ultra' | 'balanced' | 'performance';
   frostQuality: 'performance' | 'balanced' | 'quality';
+  blurAlgorithm: 'gaussian' | 'kawase' | 'scatter';
+  blurRadius: number;
+  surfacePattern: 'none' | 'reeded' | 'hammered' | 'ice' | 'rain';
+  surfaceStrength: number;
+  frostTint: string;
+  frostTintOpacity: number;
+  frostSaturation: number;
+  frostContrast: number;
+  revealBrightness: number;
+  revealSaturation: number;
+  revealContrast: number;
+  vignetteStrength: number;
+  vignetteColor: string;
+  transparentBackground: boolean;
+  frostOpacity: number;
+  objectFit: 'cover' | 'contain' | 'fill' | 'none';
+  focalX: number;
+  focalY: number;
+  matchMediaAspect: boolean;
+  kenBurns: boolean;
+  kenBurnsDuration: number;
+  kenBurnsZoom: number;
   chromaticAberration: number;
   reflectivity: number;
   blurBrightness: number;
+  revealThreshold: number;
+  onRevealProgress?: (fraction: number) => void;
+  onRevealThreshold?: (fraction: number) => void;
+}
+
+/**
+ * Imperative handle exposed through `ref`. Coordinates and radii are in CSS pixels
+ * relative to the component's top-left corner.
+ */
+export interface ClarityHandle {
+  revealAll: (durationMs?: number) => void;
+  frostAll: (durationMs?: number) => void;
+  reset: () => void;
+  wipeAt: (x: number, y: number, radius?: number) => void;
+  wipePath: (points: { x: number, y: number }[], durationMs?: number, radius?: number) => void;
+  getRevealProgress: () => number;
+  getStateSnapshot: () => string | null;
+  restoreState: (snapshot: string) => Promise<void>;
+  pauseMedia: () => void;
+  playMedia: () => void;
+  setMediaStream: (stream: MediaStream | null) => void;
 }
 
+// Headings of the error overlay, by ClarityMediaError code.
+const MEDIA_ERROR_TITLES: Record<ClarityMediaErrorCode, string> = {
+  'cors': "Media Blocked",
+  'not-found': "Media Not Found",
+  'network': "Network Error",
+  'decode': "Unreadable Media",
+  'unsupported': "Unsupported Media",
+  'autoplay': "Playback Blocked",
+  'camera': "Camera Unavailable",
+  'webgl': "WebGL Unavailable",
+  'unknown': "Component Error",
+};
+
 /**
  * @framerSupportedLayoutWidth any
  * @framerSupportedLayoutHeight any
  */
-export function Clarity(props: ClarityProps) {
+export const Clarity = forwardRef<ClarityHandle, ClarityProps>(function Clarity(props, ref) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
   const controllerRef = useRef<ClarityController | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ClarityMediaError | null>(null);
   const [mediaAspectRatio, setMediaAspectRatio] = useState<number | null>(null);
 
-  const handleError = useCallback((message: string | null) => {
-    setError(message);
-    if (message) {
+  const handleError = useCallback((mediaError: ClarityMediaError | null) => {
+    setError(mediaError);
+    if (mediaError) {
         setMediaAspectRatio(null);
     }
   }, []);
@@ -986,7 +4387,17 @@ export function Clarity(props: ClarityProps) {
     const container = containerRef.current;
     if (!container) return;
     
-    const controller = new ClarityController(container, handleError, handleMediaLoaded, props);
+    let controller: ClarityController;
+    try {
+        controller = new ClarityController(container, handleError, handleMediaLoaded, props);
+    } catch (initError) {
+        // Thrown by WebGLRenderer when the browser or GPU can't provide a WebGL2 context.
+        const webglError = new ClarityMediaError('webgl', `WebGL is unavailable. ${(initError instanceof Error) ? initError.message : initError}`);
+        console.error(`Clarity Component Error (webgl): ${webglError.message}`);
+        handleError(webglError);
+        props.onMediaError?.(webglError);
+        return;
+    }
     controllerRef.current = controller;
     
     return () => {
@@ -1027,29 +4438,59 @@ export function Clarity(props: ClarityProps) {
         gifSource,
         gifUrl,
         gifUrlLink,
+        maskSource,
+        maskUrl,
+        maskUrlLink,
+        children,
         ...otherProps 
     } = props;
     
     const finalImageUrl = imageSource === 'link' ? imageUrlLink : imageUrl;
     const finalVideoUrl = videoSource === 'link' ? videoUrlLink : videoUrl;
     const finalGifUrl = gifSource === 'link' ? gifUrlLink : gifUrl;
+    const finalMaskUrl = maskSource === 'link' ? maskUrlLink : maskUrl;
 
     const propsForController = {
         ...otherProps,
         imageUrl: finalImageUrl,
         videoUrl: finalVideoUrl,
         gifUrl: finalGifUrl,
+        maskUrl: finalMaskUrl,
     };
     
     controllerRef.current?.setProps(propsForController);
 }, [
     props.mediaType, props.imageUrl, props.videoUrl, props.gifUrl, 
-    props.refrostRate, props.brushSize, props.chromaticAberration, 
+    props.refrostRate, props.brushSize, props.pressureSensitivity, props.chromaticAberration, 
     props.reflectivity, props.blurBrightness, props.videoSound, 
     props.videoVolume, props.imageSource, props.imageUrlLink,
-    props.videoSource, props.videoUrlLink, props.gifSource, props.gifUrlLink
+    props.videoSource, props.videoUrlLink, props.gifSource, props.gifUrlLink,
+    props.revealThreshold, props.onRevealProgress, props.onRevealThreshold,
+    props.maskSource, props.maskUrl, props.maskUrlLink,
+    props.text, props.textFontFamily, props.textFontSize, props.textFontWeight,
+    props.textColor, props.textBackground, props.textAlign, props.svgMarkup,
+    props.etchMode, props.etchSource, props.persistState, props.persistStorage,
+    props.persistKey, props.onStateSnapshot, props.physics, props.gravityAngle,
+    props.tiltGravity, props.droplets, props.dropletSize, props.blurAlgorithm,
+    props.blurRadius, props.surfacePattern, props.surfaceStrength, props.frostTint,
+    props.frostTintOpacity, props.frostSaturation, props.frostContrast,
+    props.revealBrightness, props.revealSaturation, props.revealContrast,
+    props.vignetteStrength, props.vignetteColor, props.transparentBackground,
+    props.frostOpacity, props.objectFit, props.focalX, props.focalY, props.kenBurns,
+    props.kenBurnsDuration, props.kenBurnsZoom, props.mediaItems, props.refrostOnChange,
+    props.cameraFacing, props.cameraMirror, props.mediaStream, props.videoStartTime,
+    props.videoEndTime, props.videoLoop, props.videoPlaybackRate, props.videoAutoplay,
+    props.videoPoster, props.onVideoEnded, props.onVideoTimeUpdate, props.imageSrcSet,
+    props.placeholder, props.placeholderColor, props.placeholderBlurhash,
+    props.placeholderPreview, props.onMediaReady, props.onMediaError, props.onContextLost,
+    props.onContextRestored
 ]);
 
+  // Hand the live content layer to the controller when it is mounted
+  useEffect(() => {
+      controllerRef.current?.setContentElement(props.mediaType === 'children' ? contentRef.current : null);
+  }, [props.mediaType]);
+
   // Update controller's error state
   useEffect(() => {
       controllerRef.current?.setErrorState(!!error);
@@ -1065,72 +4506,261 @@ export function Clarity(props: ClarityProps) {
   
   useVisibility(containerRef, handleVisibilityChange);
 
+  useImperativeHandle(ref, () => ({
+    revealAll: (durationMs) => controllerRef.current?.revealAll(durationMs),
+    frostAll: (durationMs) => controllerRef.current?.frostAll(durationMs),
+    reset: () => controllerRef.current?.reset(),
+    wipeAt: (x, y, radius) => controllerRef.current?.wipeAt(x, y, radius),
+    wipePath: (points, durationMs, radius) => controllerRef.current?.wipePath(points, durationMs, radius),
+    getRevealProgress: () => controllerRef.current?.getRevealProgress() ?? 0,
+    getStateSnapshot: () => controllerRef.current?.getStateSnapshot() ?? null,
+    restoreState: async (snapshot) => controllerRef.current?.restoreState(snapshot),
+    pauseMedia: () => controllerRef.current?.pauseMedia(),
+    playMedia: () => controllerRef.current?.playMedia(),
+    setMediaStream: (stream) => controllerRef.current?.setMediaStream(stream),
+  }), []);
+
   return (
     <div className="w-full h-full flex items-center justify-center">
         <div 
           ref={containerRef}
-          className="relative bg-black/20 block max-w-full max-h-full transition-[width,height,aspect-ratio] duration-500 ease-in-out"
-          style={mediaAspectRatio ? { aspectRatio: `${mediaAspectRatio}` } : { width: '100%', height: '100%'}}
+          className={`relative ${props.transparentBackground ? '' : 'bg-black/20'} block max-w-full max-h-full transition-[width,height,aspect-ratio] duration-500 ease-in-out`}
+          style={mediaAspectRatio && props.matchMediaAspect ? { aspectRatio: `${mediaAspectRatio}` } : { width: '100%', height: '100%'}}
         >
           {/* The canvas is now created and managed by the ClarityController */}
+          {props.mediaType === 'children' && (
+            <div ref={contentRef} className="absolute inset-0 z-0 overflow-hidden">
+              {props.children}
+            </div>
+          )}
           {error && (
             <div 
-              className="absolute inset-0 flex flex-col items-center justify-center bg-transparent text-white p-6 text-center"
+              className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-transparent text-white p-6 text-center"
               role="alert"
             >
               <div className="max-w-md p-4 rounded-lg bg-black/50 backdrop-blur-sm border border-red-500/50">
-                <h3 className="font-bold text-md mb-2 text-red-400">Component Error</h3>
-                <p className="text-sm text-gray-300">{error}</p>
+                <h3 className="font-bold text-md mb-2 text-red-400">{MEDIA_ERROR_TITLES[error.code]}</h3>
+                <p className="text-sm text-gray-300">{error.message}</p>
               </div>
             </div>
           )}
         </div>
     </div>
   );
-};
+});
 
 Clarity.defaultProps = {
     mediaType: 'image',
     imageSource: 'upload',
     imageUrl: "https://images.unsplash.com/photo-1470770841072-f978cf4d019e?q=80&w=2070&auto=format&fit=crop",
     imageUrlLink: '',
+    imageSrcSet: [],
     videoSource: 'upload',
     videoUrlLink: '',
     gifSource: 'upload',
     gifUrlLink: '',
+    maskSource: 'upload',
+    maskUrlLink: '',
+    text: 'Wipe to reveal',
+    textFontFamily: 'Inter, sans-serif',
+    textFontSize: 96,
+    textFontWeight: 500,
+    textColor: '#ffffff',
+    textBackground: '#111111',
+    textAlign: 'center',
+    svgMarkup: '',
+    etchMode: 'none',
+    etchSource: 'text',
+    persistState: false,
+    persistStorage: 'local',
+    persistKey: 'clarity-wipe-state',
+    gravityAngle: 0,
+    tiltGravity: false,
+    droplets: true,
+    dropletSize: 1,
     videoSound: false,
     videoVolume: 0.5,
+    videoStartTime: 0,
+    videoEndTime: 0,
+    videoLoop: true,
+    videoPlaybackRate: 1,
+    videoAutoplay: 'load',
+    placeholder: 'none',
+    placeholderColor: '#808080',
     refrostRate: 0.0030,
     brushSize: 0.30,
+    pressureSensitivity: false,
     quality: 'ultra',
     frostQuality: 'performance',
+    blurAlgorithm: 'gaussian',
+    blurRadius: 12,
+    surfacePattern: 'none',
+    surfaceStrength: 0.5,
+    frostTint: '#ffffff',
+    vignetteColor: '#000000',
+    ...DEFAULT_GRADE,
+    transparentBackground: false,
+    frostOpacity: 0.6,
+    mediaItems: [],
+    refrostOnChange: false,
+    cameraFacing: 'user',
+    cameraMirror: true,
+    objectFit: 'cover',
+    focalX: 0.5,
+    focalY: 0.5,
+    matchMediaAspect: true,
+    kenBurns: false,
+    kenBurnsDuration: 20,
+    kenBurnsZoom: 1.15,
     chromaticAberration: 0.01,
     reflectivity: 0.2,
     blurBrightness: 1.2,
+    revealThreshold: 0.6,
 };
 
+const isMediaType = (props: ClarityProps) => ['image', 'video', 'gif', 'playlist', 'camera'].includes(props.mediaType);
+const usesKenBurns = (props: ClarityProps) => props.mediaType === 'image' || props.mediaType === 'playlist';
+const usesText = (props: ClarityProps) => props.mediaType === 'text' || (props.etchMode !== 'none' && props.etchSource === 'text');
+const usesSvg = (props: ClarityProps) => props.mediaType === 'svg' || (props.etchMode !== 'none' && props.etchSource === 'svg');
+
 addPropertyControls(Clarity, {
-    mediaType: { type: ControlType.Enum, title: "Media", options: ['image', 'video', 'gif'], defaultValue: 'image' },
+    mediaType: { type: ControlType.Enum, title: "Media", options: ['image', 'video', 'gif', 'text', 'svg', 'children', 'playlist', 'camera'], optionTitles: ['Image', 'Video', 'GIF', 'Text', 'SVG', 'Live Content', 'Playlist', 'Camera'], defaultValue: 'image' },
+    children: { type: ControlType.ComponentInstance, title: "Content", hidden: (props: ClarityProps) => props.mediaType !== 'children' },
     // Image Controls
     imageSource: { type: ControlType.SegmentedEnum, title: "Image Source", options: ['upload', 'link'], optionTitles: ["Upload", "Link"], defaultValue: 'upload', hidden: (props: ClarityProps) => props.mediaType !== 'image' },
     imageUrl: { type: ControlType.Image, title: "Image Upload", hidden: (props: ClarityProps) => props.mediaType !== 'image' || props.imageSource !== 'upload' },
     imageUrlLink: { type: ControlType.String, title: "Image Link", placeholder: "https://...", hidden: (props: ClarityProps) => props.mediaType !== 'image' || props.imageSource !== 'link' },
+    imageSrcSet: {
+        type: ControlType.Array,
+        title: "Responsive",
+        hidden: (props: ClarityProps) => props.mediaType !== 'image',
+        control: {
+            type: ControlType.Object,
+            controls: {
+                url: { type: ControlType.String, title: "Link", placeholder: "https://..." },
+                width: { type: ControlType.Number, title: "Width", min: 1, max: 8192, step: 1, defaultValue: 1280, unit: "px", displayStepper: true },
+                type: { type: ControlType.Enum, title: "Format", options: ['', 'image/avif', 'image/webp', 'image/jpeg', 'image/png'], optionTitles: ['Any', 'AVIF', 'WebP', 'JPEG', 'PNG'], defaultValue: '' },
+            },
+        },
+    },
     // Video Controls
     videoSource: { type: ControlType.SegmentedEnum, title: "Video Source", options: ['upload', 'link'], optionTitles: ["Upload", "Link"], defaultValue: 'upload', hidden: (props: ClarityProps) => props.mediaType !== 'video' },
     videoUrl: { type: ControlType.File, title: "Video Upload", allowedFileTypes: ['mp4', 'webm', 'mov'], hidden: (props: ClarityProps) => props.mediaType !== 'video' || props.videoSource !== 'upload' },
     videoUrlLink: { type: ControlType.String, title: "Video Link", placeholder: "https://...", hidden: (props: ClarityProps) => props.mediaType !== 'video' || props.videoSource !== 'link' },
+    // Camera Controls
+    cameraFacing: { type: ControlType.SegmentedEnum, title: "Camera", options: ['user', 'environment'], optionTitles: ['Front', 'Back'], defaultValue: 'user', hidden: (props: ClarityProps) => props.mediaType !== 'camera' },
+    cameraMirror: { type: ControlType.Boolean, title: "Mirror", defaultValue: true, enabledTitle: "On", disabledTitle: "Off", hidden: (props: ClarityProps) => props.mediaType !== 'camera' },
+    // Playlist Controls
+    mediaItems: {
+        type: ControlType.Array,
+        title: "Slides",
+        hidden: (props: ClarityProps) => props.mediaType !== 'playlist',
+        control: {
+            type: ControlType.Object,
+            controls: {
+                type: { type: ControlType.Enum, title: "Type", options: ['image', 'video', 'gif'], optionTitles: ['Image', 'Video', 'GIF'], defaultValue: 'image' },
+                url: { type: ControlType.String, title: "Link", placeholder: "https://..." },
+                duration: { type: ControlType.Number, title: "Duration", min: 0, max: 120, step: 0.5, defaultValue: 0, unit: "s", displayStepper: true },
+                transition: { type: ControlType.Enum, title: "Transition", options: ['crossfade', 'wipe', 'cut'], optionTitles: ['Crossfade', 'Wipe', 'Cut'], defaultValue: 'crossfade' },
+            },
+        },
+    },
+    refrostOnChange: { type: ControlType.Boolean, title: "Refrost on Change", defaultValue: false, enabledTitle: "On", disabledTitle: "Off", hidden: (props: ClarityProps) => props.mediaType !== 'playlist' },
+    // Fit Controls
+    objectFit: { type: ControlType.Enum, title: "Fit", options: FIT_MODES, optionTitles: ['Cover', 'Contain', 'Fill', 'None'], defaultValue: 'cover', hidden: (props: ClarityProps) => !isMediaType(props) },
+    focalX: { type: ControlType.Number, title: "Focal X", min: 0, max: 1, step: 0.01, defaultValue: 0.5, displayStepper: true, hidden: (props: ClarityProps) => !isMediaType(props) || props.objectFit === 'fill' },
+    focalY: { type: ControlType.Number, title: "Focal Y", min: 0, max: 1, step: 0.01, defaultValue: 0.5, displayStepper: true, hidden: (props: ClarityProps) => !isMediaType(props) || props.objectFit === 'fill' },
+    matchMediaAspect: { type: ControlType.Boolean, title: "Match Aspect", defaultValue: true, enabledTitle: "Media", disabledTitle: "Layout", hidden: (props: ClarityProps) => !isMediaType(props) || props.mediaType === 'playlist' },
+    kenBurns: { type: ControlType.Boolean, title: "Ken Burns", defaultValue: false, enabledTitle: "On", disabledTitle: "Off", hidden: (props: ClarityProps) => !usesKenBurns(props) },
+    kenBurnsDuration: { type: ControlType.Number, title: "Pan Duration", min: 5, max: 120, step: 1, defaultValue: 20, unit: "s", displayStepper: true, hidden: (props: ClarityProps) => !usesKenBurns(props) || !props.kenBurns },
+    kenBurnsZoom: { type: ControlType.Number, title: "Pan Zoom", min: 1, max: 1.5, step: 0.01, defaultValue: 1.15, displayStepper: true, hidden: (props: ClarityProps) => !usesKenBurns(props) || !props.kenBurns },
     // GIF Controls
     gifSource: { type: ControlType.SegmentedEnum, title: "GIF Source", options: ['upload', 'link'], optionTitles: ["Upload", "Link"], defaultValue: 'upload', hidden: (props: ClarityProps) => props.mediaType !== 'gif' },
     gifUrl: { type: ControlType.Image, title: "GIF Upload", hidden: (props: ClarityProps) => props.mediaType !== 'gif' || props.gifSource !== 'upload' },
     gifUrlLink: { type: ControlType.String, title: "GIF Link", placeholder: "https://...", hidden: (props: ClarityProps) => props.mediaType !== 'gif' || props.gifSource !== 'link' },
+    // Etch Controls
+    etchMode: { type: ControlType.Enum, title: "Etch", options: ['none', 'clear', 'frost'], optionTitles: ['None', 'Etched Clear', 'Etched Frost'], defaultValue: 'none' },
+    etchSource: { type: ControlType.SegmentedEnum, title: "Etch Source", options: ['text', 'svg'], optionTitles: ['Text', 'SVG'], defaultValue: 'text', hidden: (props: ClarityProps) => props.etchMode === 'none' },
+    // Text / SVG Controls
+    text: { type: ControlType.String, title: "Text", defaultValue: 'Wipe to reveal', displayTextArea: true, hidden: (props: ClarityProps) => !usesText(props) },
+    textFontFamily: { type: ControlType.String, title: "Font", defaultValue: 'Inter, sans-serif', hidden: (props: ClarityProps) => !usesText(props) },
+    textFontSize: { type: ControlType.Number, title: "Font Size", min: 8, max: 400, step: 1, defaultValue: 96, displayStepper: true, hidden: (props: ClarityProps) => !usesText(props) },
+    textFontWeight: { type: ControlType.Number, title: "Font Weight", min: 100, max: 900, step: 100, defaultValue: 500, hidden: (props: ClarityProps) => !usesText(props) },
+    textAlign: { type: ControlType.SegmentedEnum, title: "Align", options: ['left', 'center', 'right'], optionTitles: ['Left', 'Center', 'Right'], defaultValue: 'center', hidden: (props: ClarityProps) => !usesText(props) },
+    textColor: { type: ControlType.Color, title: "Text Color", defaultValue: '#ffffff', hidden: (props: ClarityProps) => props.mediaType !== 'text' },
+    svgMarkup: { type: ControlType.String, title: "SVG", placeholder: "<svg ...>", displayTextArea: true, hidden: (props: ClarityProps) => !usesSvg(props) },
+    textBackground: { type: ControlType.Color, title: "Background", defaultValue: '#111111', hidden: (props: ClarityProps) => props.mediaType !== 'text' && props.mediaType !== 'svg' },
+    // Frost Mask Controls (black stays clear, white refrosts at full speed)
+    maskSource: { type: ControlType.SegmentedEnum, title: "Mask Source", options: ['upload', 'link'], optionTitles: ["Upload", "Link"], defaultValue: 'upload' },
+    maskUrl: { type: ControlType.Image, title: "Frost Mask", hidden: (props: ClarityProps) => props.maskSource !== 'upload' },
+    maskUrlLink: { type: ControlType.String, title: "Mask Link", placeholder: "https://...", hidden: (props: ClarityProps) => props.maskSource !== 'link' },
     
     videoSound: { type: ControlType.Boolean, title: "Sound", defaultValue: false, hidden: (props: ClarityProps) => props.mediaType !== 'video' },
     videoVolume: { type: ControlType.Number, title: "Volume", min: 0, max: 1, step: 0.05, defaultValue: 0.5, displayStepper: true, hidden: (props: ClarityProps) => props.mediaType !== 'video' || !props.videoSound },
+    videoAutoplay: { type: ControlType.SegmentedEnum, title: "Autoplay", options: ['load', 'reveal'], optionTitles: ['On Load', 'On Reveal'], defaultValue: 'load', hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    videoLoop: { type: ControlType.Boolean, title: "Loop", defaultValue: true, enabledTitle: "On", disabledTitle: "Off", hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    videoStartTime: { type: ControlType.Number, title: "Start", min: 0, max: 3600, step: 0.1, defaultValue: 0, unit: "s", displayStepper: true, hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    videoEndTime: { type: ControlType.Number, title: "End", min: 0, max: 3600, step: 0.1, defaultValue: 0, unit: "s", displayStepper: true, hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    videoPlaybackRate: { type: ControlType.Number, title: "Speed", min: 0.25, max: 4, step: 0.25, defaultValue: 1, unit: "x", displayStepper: true, hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    videoPoster: { type: ControlType.Image, title: "Poster", hidden: (props: ClarityProps) => props.mediaType !== 'video' },
+    onVideoEnded: { type: ControlType.EventHandler },
+    onVideoTimeUpdate: { type: ControlType.EventHandler },
+    // Loading Controls
+    placeholder: { type: ControlType.Enum, title: "Placeholder", options: ['none', 'color', 'blurhash', 'preview'], optionTitles: ['None', 'Color', 'BlurHash', 'Preview Image'], defaultValue: 'none', hidden: (props: ClarityProps) => !isMediaType(props) },
+    placeholderColor: { type: ControlType.Color, title: "Placeholder Color", defaultValue: '#808080', hidden: (props: ClarityProps) => !isMediaType(props) || props.placeholder !== 'color' },
+    placeholderBlurhash: { type: ControlType.String, title: "BlurHash", placeholder: "LEHV6nWB2yk8pyo0adR*.7kCMdnj", hidden: (props: ClarityProps) => !isMediaType(props) || props.placeholder !== 'blurhash' },
+    placeholderPreview: { type: ControlType.Image, title: "Preview", hidden: (props: ClarityProps) => !isMediaType(props) || props.placeholder !== 'preview' },
+    onMediaReady: { type: ControlType.EventHandler },
+    onMediaError: { type: ControlType.EventHandler },
+    onContextLost: { type: ControlType.EventHandler },
+    onContextRestored: { type: ControlType.EventHandler },
     refrostRate: { type: ControlType.Number, title: "Refrost Rate", min: 0, max: 0.005, step: 0.0001, defaultValue: 0.0030, displayStepper: true },
     brushSize: { type: ControlType.Number, title: "Pointer Size", min: 0.05, max: 0.5, step: 0.01, defaultValue: 0.30, displayStepper: true },
+    pressureSensitivity: { type: ControlType.Boolean, title: "Pressure", defaultValue: false, enabledTitle: "On", disabledTitle: "Off" },
     reflectivity: { type: ControlType.Number, title: "Reflectivity", min: 0, max: 1.0, step: 0.01, defaultValue: 0.2, displayStepper: true },
     chromaticAberration: { type: ControlType.Number, title: "Aberration", min: 0, max: 0.1, step: 0.001, defaultValue: 0.01, displayStepper: true },
     blurBrightness: { type: ControlType.Number, title: "Frost Brightness", min: 0.5, max: 2, step: 0.01, defaultValue: 1.2, displayStepper: true },
+    blurAlgorithm: { type: ControlType.Enum, title: "Blur", options: ['gaussian', 'kawase', 'scatter'], optionTitles: ['Gaussian', 'Dual Kawase', 'Frosted Scatter'], defaultValue: 'gaussian' },
+    blurRadius: { type: ControlType.Number, title: "Blur Radius", min: 0, max: 100, step: 1, defaultValue: 12, unit: "px", displayStepper: true },
+    surfacePattern: { type: ControlType.Enum, title: "Surface", options: SURFACE_PATTERNS, optionTitles: ['None', 'Reeded', 'Hammered', 'Ice Crystals', 'Rainy Window'], defaultValue: 'none' },
+    surfaceStrength: { type: ControlType.Number, title: "Surface Strength", min: 0, max: 1, step: 0.01, defaultValue: 0.5, displayStepper: true, hidden: (props: ClarityProps) => props.surfacePattern === 'none' },
+    // Frost Grade Controls
+    frostTint: { type: ControlType.Color, title: "Frost Tint", defaultValue: '#ffffff' },
+    frostTintOpacity: { type: ControlType.Number, title: "Tint Opacity", min: 0, max: 1, step: 0.01, defaultValue: DEFAULT_GRADE.frostTintOpacity, displayStepper: true },
+    frostSaturation: { type: ControlType.Number, title: "Frost Saturation", min: 0, max: 2, step: 0.01, defaultValue: DEFAULT_GRADE.frostSaturation, displayStepper: true },
+    frostContrast: { type: ControlType.Number, title: "Frost Contrast", min: 0, max: 2, step: 0.01, defaultValue: DEFAULT_GRADE.frostContrast, displayStepper: true },
+    // Revealed Grade Controls
+    revealBrightness: { type: ControlType.Number, title: "Clear Brightness", min: 0, max: 2, step: 0.01, defaultValue: DEFAULT_GRADE.revealBrightness, displayStepper: true },
+    revealSaturation: { type: ControlType.Number, title: "Clear Saturation", min: 0, max: 2, step: 0.01, defaultValue: DEFAULT_GRADE.revealSaturation, displayStepper: true },
+    revealContrast: { type: ControlType.Number, title: "Clear Contrast", min: 0, max: 2, step: 0.01, defaultValue: DEFAULT_GRADE.revealContrast, displayStepper: true },
+    vignetteStrength: { type: ControlType.Number, title: "Vignette", min: 0, max: 1, step: 0.01, defaultValue: DEFAULT_GRADE.vignetteStrength, displayStepper: true },
+    vignetteColor: { type: ControlType.Color, title: "Vignette Color", defaultValue: '#000000', hidden: (props: ClarityProps) => props.vignetteStrength === 0 },
+    transparentBackground: { type: ControlType.Boolean, title: "Transparent", defaultValue: false, enabledTitle: "On", disabledTitle: "Off" },
+    frostOpacity: { type: ControlType.Number, title: "Frost Opacity", min: 0, max: 1, step: 0.01, defaultValue: 0.6, displayStepper: true, hidden: (props: ClarityProps) => !props.transparentBackground },
+    revealThreshold: { type: ControlType.Number, title: "Reveal Threshold", min: 0.05, max: 1, step: 0.05, defaultValue: 0.6, displayStepper: true },
+    onRevealProgress: { type: ControlType.EventHandler },
+    onRevealThreshold: { type: ControlType.EventHandler },
+    persistState: { type: ControlType.Boolean, title: "Remember Wipe", defaultValue: false, enabledTitle: "On", disabledTitle: "Off" },
+    persistStorage: { type: ControlType.SegmentedEnum, title: "Storage", options: ['local', 'session'], optionTitles: ['Local', 'Session'], defaultValue: 'local', hidden: (props: ClarityProps) => !props.persistState },
+    persistKey: { type: ControlType.String, title: "Storage Key", defaultValue: 'clarity-wipe-state', hidden: (props: ClarityProps) => !props.persistState },
+    onStateSnapshot: { type: ControlType.EventHandler },
+    gravityAngle: { type: ControlType.Number, title: "Gravity Angle", min: -180, max: 180, step: 1, defaultValue: 0, unit: "°" },
+    tiltGravity: { type: ControlType.Boolean, title: "Tilt Gravity", defaultValue: false, enabledTitle: "On", disabledTitle: "Off" },
+    droplets: { type: ControlType.Boolean, title: "Droplets", defaultValue: true, enabledTitle: "On", disabledTitle: "Off" },
+    dropletSize: { type: ControlType.Number, title: "Droplet Size", min: 0.5, max: 2.5, step: 0.1, defaultValue: 1, displayStepper: true, hidden: (props: ClarityProps) => !props.droplets },
+    physics: {
+        type: ControlType.Object,
+        title: "Physics",
+        optional: true,
+        controls: {
+            dripRetention: { type: ControlType.Number, title: "Drip Retention", min: 0.9, max: 1, step: 0.001, defaultValue: DEFAULT_PHYSICS.dripRetention },
+            waterEvaporation: { type: ControlType.Number, title: "Evaporation", min: 0.8, max: 1, step: 0.001, defaultValue: DEFAULT_PHYSICS.waterEvaporation },
+            waterToDripConversion: { type: ControlType.Number, title: "Bead Formation", min: 0, max: 0.1, step: 0.001, defaultValue: DEFAULT_PHYSICS.waterToDripConversion },
+            dripClearFactor: { type: ControlType.Number, title: "Drip Clearing", min: 0, max: 1, step: 0.01, defaultValue: DEFAULT_PHYSICS.dripClearFactor },
+            dripOffset: { type: ControlType.Number, title: "Drip Speed", min: 0, max: 8, step: 0.1, defaultValue: DEFAULT_PHYSICS.dripOffset, unit: "px" },
+            frostToWaterConversion: { type: ControlType.Number, title: "Frost to Water", min: 0, max: 1, step: 0.01, defaultValue: DEFAULT_PHYSICS.frostToWaterConversion },
+        },
+    },
     quality: {
         type: ControlType.Enum,
         title: "Quality",
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Clarity } from '../framer';
+import { createFakeStream, deliverStreamMetadata, flush, installBrowserStubs, mountClarity, type MountedClarity } from './harness';
+
+vi.mock('three', async (importOriginal) => (await import('./harness')).createThreeMock(await importOriginal()));
+vi.mock('framer', async () => (await import('./harness')).createFramerMock());
+
+describe('camera media', () => {
+    let mounted: MountedClarity | null = null;
+    let getUserMedia: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        installBrowserStubs();
+        getUserMedia = vi.fn();
+        Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: { getUserMedia } });
+    });
+    afterEach(() => {
+        mounted?.unmount();
+        mounted = null;
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('shows a stream passed through props without opening the camera', async () => {
+        const { stream, track } = createFakeStream();
+        const onMediaReady = vi.fn();
+        mounted = mountClarity(Clarity, { mediaType: 'camera', mediaStream: stream, placeholder: 'none', onMediaReady });
+        await flush();
+        deliverStreamMetadata(stream);
+        await flush();
+
+        expect(onMediaReady).toHaveBeenCalledWith({ mediaType: 'camera', width: 640, height: 480 });
+        expect(getUserMedia).not.toHaveBeenCalled();
+        expect(track.stop).not.toHaveBeenCalled();
+    });
+
+    it('swaps the camera for a stream handed to setMediaStream, and stops only its own camera', async () => {
+        const camera = createFakeStream();
+        const supplied = createFakeStream();
+        getUserMedia.mockResolvedValue(camera.stream);
+        const onMediaReady = vi.fn();
+        mounted = mountClarity(Clarity, { mediaType: 'camera', placeholder: 'none', onMediaReady });
+        await flush();
+        deliverStreamMetadata(camera.stream);
+        await flush();
+        expect(onMediaReady).toHaveBeenCalledTimes(1);
+
+        act(() => mounted!.handle.setMediaStream(supplied.stream));
+        await flush();
+        deliverStreamMetadata(supplied.stream, 1280, 720);
+        await flush();
+
+        expect(camera.track.stop).toHaveBeenCalled();
+        expect(onMediaReady).toHaveBeenLastCalledWith({ mediaType: 'camera', width: 1280, height: 720 });
+
+        mounted.unmount();
+        mounted = null;
+        expect(supplied.track.stop).not.toHaveBeenCalled();
+    });
+
+    it('drops a camera load that is superseded while waiting for its first frame', async () => {
+        const camera = createFakeStream();
+        const supplied = createFakeStream();
+        getUserMedia.mockResolvedValue(camera.stream);
+        const onMediaReady = vi.fn();
+        mounted = mountClarity(Clarity, { mediaType: 'camera', placeholder: 'none', onMediaReady });
+        await flush();
+        expect(getUserMedia).toHaveBeenCalled();
+
+        act(() => mounted!.handle.setMediaStream(supplied.stream));
+        await flush();
+        const [suppliedVideo] = deliverStreamMetadata(supplied.stream);
+        await flush();
+        // The stale camera only gets its first frame after the newer stream is already showing.
+        const [cameraVideo] = deliverStreamMetadata(camera.stream);
+        await flush();
+
+        expect(camera.track.stop).toHaveBeenCalled();
+        expect(cameraVideo.srcObject).toBeNull();
+        expect(supplied.track.stop).not.toHaveBeenCalled();
+        expect(onMediaReady).toHaveBeenCalledTimes(1);
+
+        // Media controls still drive the stream that is on screen.
+        const pause = vi.mocked(HTMLMediaElement.prototype.pause);
+        pause.mockClear();
+        act(() => mounted!.handle.pauseMedia());
+        expect(pause.mock.contexts).toEqual([suppliedVideo]);
+    });
+});
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Clarity } from '../framer';
+import { decodedImages, flush, gpu, installBrowserStubs, mountClarity, runFrames, type MountedClarity } from './harness';
+
+vi.mock('three', async (importOriginal) => (await import('./harness')).createThreeMock(await importOriginal()));
+vi.mock('framer', async () => (await import('./harness')).createFramerMock());
+
+describe('WebGL context loss', () => {
+    let mounted: MountedClarity | null = null;
+    let now = 0;
+
+    beforeEach(() => {
+        installBrowserStubs();
+        now = Date.now();
+        vi.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+    afterEach(() => {
+        mounted?.unmount();
+        mounted = null;
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    async function mountRunning(props = {}) {
+        mounted = mountClarity(Clarity, { mediaType: 'text', ...props });
+        await flush();
+        runFrames();
+        return mounted;
+    }
+
+    // Idle panes tick on a 100ms timer rather than animation frames.
+    async function waitForIdleFrame() {
+        await act(() => new Promise(resolve => setTimeout(resolve, 150)));
+    }
+
+    function dispatch(canvas: HTMLCanvasElement, type: string) {
+        const event = new Event(type, { cancelable: true });
+        act(() => { canvas.dispatchEvent(event); });
+        return event;
+    }
+
+    it('stops rendering while the context is lost and rebuilds its targets on restore', async () => {
+        const onContextLost = vi.fn();
+        const onContextRestored = vi.fn();
+        const { canvas, renderer } = await mountRunning({ onContextLost, onContextRestored });
+        expect(renderer.render).toHaveBeenCalled();
+
+        const lost = dispatch(canvas, 'webglcontextlost');
+        expect(lost.defaultPrevented).toBe(true);
+        expect(onContextLost).toHaveBeenCalledTimes(1);
+        renderer.render.mockClear();
+        runFrames(3);
+        expect(renderer.render).not.toHaveBeenCalled();
+
+        const physicsTargets = gpu.renderTargets.slice(0, 2);
+        gpu.renderTargets = [];
+        dispatch(canvas, 'webglcontextrestored');
+        await flush();
+        expect(onContextRestored).toHaveBeenCalledTimes(1);
+        expect(gpu.renderTargets.length).toBeGreaterThan(0);
+        expect(gpu.renderTargets).not.toContain(physicsTargets[0]);
+
+        runFrames();
+        expect(renderer.render).toHaveBeenCalled();
+    });
+
+    it('restores the wipes made since the tab was last hidden', async () => {
+        // Droplets read the physics summary back too; keep them out of the readback count.
+        const { canvas, handle, renderer } = await mountRunning({ droplets: false });
+        const toDataURL = vi.mocked(HTMLCanvasElement.prototype.toDataURL);
+        const readPixels = vi.mocked(renderer.readRenderTargetPixels);
+
+        // An untouched pane doesn't keep reading back.
+        const idleReads = readPixels.mock.calls.length;
+        const idleEncodes = toDataURL.mock.calls.length;
+        now += 5000;
+        runFrames(3);
+        await waitForIdleFrame();
+        expect(readPixels.mock.calls.length).toBe(idleReads);
+
+        // Wipe, then let the pane run past the refresh interval while the tab stays visible.
+        now += 1000;
+        act(() => handle.wipeAt(100, 100));
+        now += 5000;
+        await waitForIdleFrame();
+        expect(readPixels.mock.calls.length).toBe(idleReads + 1);
+        // The periodic refresh keeps raw pixels; nothing is PNG-encoded while wiping.
+        expect(toDataURL.mock.calls.length).toBe(idleEncodes);
+        const latestPixels = readPixels.mock.calls[readPixels.mock.calls.length - 1][5];
+
+        dispatch(canvas, 'webglcontextlost');
+        expect(handle.getStateSnapshot()).toMatch(/^data:image\/png;base64,/);
+
+        const restoreMaterial = gpu.materials.find(material => 'uSnapshot' in material.uniforms)!;
+        const restored: unknown[] = [];
+        renderer.render.mockImplementation(() => {
+            const snapshot = restoreMaterial.uniforms.uSnapshot.value;
+            if (snapshot) restored.push(snapshot.image.data);
+        });
+        decodedImages.length = 0;
+        dispatch(canvas, 'webglcontextrestored');
+        await flush();
+        runFrames();
+
+        // The restore uploads the readback taken after the wipe, without a PNG round trip.
+        expect(decodedImages).toEqual([]);
+        expect(restored.length).toBeGreaterThan(0);
+        expect(restored.every(data => data === latestPixels)).toBe(true);
+    });
+});
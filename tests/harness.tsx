@@ -0,0 +1,247 @@
+import { createRef } from 'react';
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { vi } from 'vitest';
+import type * as ThreeModule from 'three';
+import type { ClarityHandle, ClarityProps } from '../framer';
+
+// Shared test doubles for the Clarity component. jsdom has no WebGL, so three's renderer is
+// replaced by a recorder, and the browser APIs the component leans on are stubbed just enough
+// for a controller to mount, size itself and run frames.
+
+/** What the fake GPU reports, and everything it was asked to create. */
+export const gpu = {
+    extensions: new Set<string>(),
+    renderers: [] as FakeRenderer[],
+    renderTargets: [] as ThreeModule.WebGLRenderTarget[],
+    materials: [] as ThreeModule.ShaderMaterial[],
+};
+
+export interface FakeRenderer {
+    canvas: HTMLCanvasElement;
+    render: ReturnType<typeof vi.fn>;
+    readRenderTargetPixels: ReturnType<typeof vi.fn>;
+}
+
+/** Builds the mocked 'three' module: the real library with the GPU-facing classes swapped out. */
+export function createThreeMock(THREE: typeof ThreeModule) {
+    class WebGLRenderer implements FakeRenderer {
+        canvas: HTMLCanvasElement;
+        outputColorSpace: string = THREE.SRGBColorSpace;
+        extensions = { has: (name: string) => gpu.extensions.has(name), get: () => null };
+        render = vi.fn();
+        readRenderTargetPixels = vi.fn();
+        private size = new THREE.Vector2();
+        private renderTarget: ThreeModule.WebGLRenderTarget | null = null;
+        private clearColor = new THREE.Color();
+
+        constructor(parameters: { canvas: HTMLCanvasElement }) {
+            this.canvas = parameters.canvas;
+            gpu.renderers.push(this);
+        }
+
+        setPixelRatio() {}
+        setSize(width: number, height: number) { this.size.set(width, height); }
+        getSize(target: ThreeModule.Vector2) { return target.copy(this.size); }
+        setRenderTarget(target: ThreeModule.WebGLRenderTarget | null) { this.renderTarget = target; }
+        getRenderTarget() { return this.renderTarget; }
+        setClearColor(color: ThreeModule.ColorRepresentation) { this.clearColor.set(color); }
+        getClearColor(target: ThreeModule.Color) { return target.copy(this.clearColor); }
+        getClearAlpha() { return 0; }
+        clear() {}
+        dispose() {}
+        forceContextLoss() {}
+    }
+
+    class WebGLRenderTarget extends THREE.WebGLRenderTarget {
+        constructor(...args: ConstructorParameters<typeof THREE.WebGLRenderTarget>) {
+            super(...args);
+            gpu.renderTargets.push(this);
+        }
+    }
+
+    class ShaderMaterial extends THREE.ShaderMaterial {
+        constructor(...args: ConstructorParameters<typeof THREE.ShaderMaterial>) {
+            super(...args);
+            gpu.materials.push(this);
+        }
+    }
+
+    return { ...THREE, WebGLRenderer, WebGLRenderTarget, ShaderMaterial };
+}
+
+/** Builds the mocked 'framer' module; property controls are irrelevant outside the editor. */
+export function createFramerMock() {
+    return {
+        addPropertyControls: () => {},
+        ControlType: new Proxy({}, { get: (_, name) => String(name) }),
+    };
+}
+
+/** The physics material is the only one driven by a refrost rate. */
+export function getPhysicsMaterial() {
+    return gpu.materials.find(material => 'uRefrostRate' in material.uniforms)!;
+}
+
+let nextStreamId = 1;
+
+/** A stream whose tracks record being stopped, like a real camera's. */
+export function createFakeStream() {
+    const track = {
+        kind: 'video',
+        readyState: 'live',
+        stop: vi.fn(() => { track.readyState = 'ended'; }),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+    };
+    const stream = { id: `stream-${nextStreamId++}`, active: true, getTracks: () => [track], getVideoTracks: () => [track], getAudioTracks: () => [] };
+    return { stream: stream as unknown as MediaStream, track };
+}
+
+/** Sources of every image decoded, in order; snapshots are restored through decode(). */
+export let decodedImages: string[] = [];
+
+let frameCallbacks = new Map<number, FrameRequestCallback>();
+let nextFrameId = 1;
+let streamVideos: HTMLVideoElement[] = [];
+
+/** Stubs the browser APIs jsdom lacks. Frames only run when a test calls runFrames(). */
+export function installBrowserStubs(size = { width: 400, height: 300 }) {
+    gpu.extensions = new Set(['EXT_color_buffer_float', 'OES_texture_float_linear']);
+    gpu.renderers = [];
+    gpu.renderTargets = [];
+    gpu.materials = [];
+    frameCallbacks = new Map();
+    streamVideos = [];
+    decodedImages = [];
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+    vi.stubGlobal('ResizeObserver', class {
+        constructor(private callback: ResizeObserverCallback) {}
+        observe(element: Element) {
+            this.callback([{ target: element, contentRect: { width: size.width, height: size.height } } as ResizeObserverEntry], this as unknown as ResizeObserver);
+        }
+        unobserve() {}
+        disconnect() {}
+    });
+    vi.stubGlobal('IntersectionObserver', class {
+        constructor(private callback: IntersectionObserverCallback) {}
+        observe(element: Element) {
+            this.callback([{ target: element, isIntersecting: true } as IntersectionObserverEntry], this as unknown as IntersectionObserver);
+        }
+        unobserve() {}
+        disconnect() {}
+    });
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+        const id = nextFrameId++;
+        frameCallbacks.set(id, callback);
+        return id;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => frameCallbacks.delete(id));
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+    vi.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => {});
+    // A 2D context that accepts any drawing, so text rasterizes and snapshots encode.
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement, type: string) {
+        if (type !== '2d') return null;
+        const context: Record<string, unknown> = {
+            canvas: this,
+            measureText: (text: string) => ({ width: text.length * 10 }),
+            createImageData: (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+            getImageData: (_x: number, _y: number, width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+        };
+        return new Proxy(context, {
+            get: (target, name: string) => name in target ? target[name] : () => {},
+            set: (target, name: string, value) => { target[name] = value; return true; },
+        }) as unknown as CanvasRenderingContext2D;
+    } as typeof HTMLCanvasElement.prototype.getContext);
+    let snapshotCount = 0;
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(() => `data:image/png;base64,snapshot-${++snapshotCount}`);
+    Object.defineProperty(HTMLImageElement.prototype, 'decode', {
+        configurable: true,
+        value(this: HTMLImageElement) {
+            decodedImages.push(this.src);
+            return Promise.resolve();
+        },
+    });
+
+    // jsdom has no srcObject; videos handed a stream wait for deliverStreamMetadata().
+    const streams = new WeakMap<HTMLMediaElement, MediaProvider | null>();
+    Object.defineProperty(HTMLMediaElement.prototype, 'srcObject', {
+        configurable: true,
+        get(this: HTMLMediaElement) { return streams.get(this) ?? null; },
+        set(this: HTMLVideoElement, stream: MediaProvider | null) {
+            streams.set(this, stream);
+            if (stream) streamVideos.push(this);
+        },
+    });
+}
+
+/** Fires loadedmetadata on the videos waiting on `stream` (or on any stream), and returns them. */
+export function deliverStreamMetadata(stream?: MediaStream, width = 640, height = 480) {
+    const videos = streamVideos.filter(video => !stream || video.srcObject === stream);
+    streamVideos = streamVideos.filter(video => !videos.includes(video));
+    act(() => {
+        for (const video of videos) {
+            Object.defineProperty(video, 'videoWidth', { configurable: true, value: width });
+            Object.defineProperty(video, 'videoHeight', { configurable: true, value: height });
+            video.dispatchEvent(new Event('loadedmetadata'));
+        }
+    });
+    return videos;
+}
+
+/** Runs the animation frames that are currently queued. */
+export function runFrames(count = 1) {
+    for (let i = 0; i < count; i++) {
+        const callbacks = [...frameCallbacks.values()];
+        frameCallbacks.clear();
+        act(() => callbacks.forEach(callback => callback(performance.now())));
+    }
+}
+
+/** Lets pending promise chains (media loads, stream waits) settle. */
+export async function flush() {
+    await act(async () => {
+        for (let i = 0; i < 10; i++) await Promise.resolve();
+    });
+}
+
+export interface MountedClarity {
+    handle: ClarityHandle;
+    canvas: HTMLCanvasElement;
+    renderer: FakeRenderer;
+    rerender: (props: Partial<ClarityProps>) => void;
+    unmount: () => void;
+}
+
+/** Mounts the component with a fake renderer; media stays empty unless the props provide it. */
+export function mountClarity(Clarity: typeof import('../framer').Clarity, props: Partial<ClarityProps> = {}): MountedClarity {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const ref = createRef<ClarityHandle>();
+    let root: Root;
+    let currentProps = { imageUrl: '', ...props };
+    const render = () => root.render(<Clarity ref={ref} {...(currentProps as ClarityProps)} />);
+    act(() => {
+        root = createRoot(host);
+        render();
+    });
+    const renderer = gpu.renderers[gpu.renderers.length - 1];
+    return {
+        handle: ref.current!,
+        canvas: renderer.canvas,
+        renderer,
+        rerender: (next) => {
+            currentProps = { ...currentProps, ...next };
+            act(render);
+        },
+        unmount: () => {
+            act(() => root.unmount());
+            host.remove();
+        },
+    };
+}
@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+import * as THREE from 'three';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Clarity } from '../framer';
+import { getPhysicsMaterial, gpu, installBrowserStubs, mountClarity, type MountedClarity } from './harness';
+
+vi.mock('three', async (importOriginal) => (await import('./harness')).createThreeMock(await importOriginal()));
+vi.mock('framer', async () => (await import('./harness')).createFramerMock());
+
+type Vector = number[] & { r: number; g: number; b: number; a: number; rgb: Vector };
+
+// Just enough GLSL vector semantics to run the encoding functions on the CPU.
+const vec = (...parts: Array<number | number[]>): Vector => {
+    const values = parts.flat() as Vector;
+    ['r', 'g', 'b', 'a'].forEach((name, i) => Object.defineProperty(values, name, { get: () => values[i] }));
+    Object.defineProperty(values, 'rgb', { get: () => vec(values.slice(0, 3)) });
+    return values;
+};
+const glsl = {
+    vec,
+    floor: (x: number) => Math.floor(x),
+    clamp: (x: number | number[], low: number, high: number): number | Vector => Array.isArray(x)
+        ? vec(x.map(value => Math.min(high, Math.max(low, value))))
+        : Math.min(high, Math.max(low, x)),
+};
+
+/** Resolves #ifdef / #if defined() / #else / #endif the way the shader compiler would. */
+function preprocess(source: string, defines: Record<string, string>) {
+    const active: boolean[] = [];
+    const isActive = () => active.every(Boolean);
+    const lines: string[] = [];
+    for (const line of source.split('\n')) {
+        const directive = line.trim();
+        if (directive.startsWith('#ifdef ')) {
+            active.push(directive.slice(7).trim() in defines);
+        } else if (directive.startsWith('#if ')) {
+            active.push([...directive.matchAll(/defined\((\w+)\)/g)].some(([, name]) => name in defines));
+        } else if (directive === '#else') {
+            active.push(!active.pop());
+        } else if (directive === '#endif') {
+            active.pop();
+        } else if (isActive()) {
+            lines.push(line);
+        }
+    }
+    return lines.join('\n');
+}
+
+function extractFunction(source: string, name: string) {
+    const start = source.search(new RegExp(`\\w+ ${name}\\(`));
+    let depth = 0;
+    for (let i = source.indexOf('{', start); i < source.length; i++) {
+        if (source[i] === '{') depth++;
+        if (source[i] === '}' && --depth === 0) return source.slice(start, i + 1);
+    }
+    throw new Error(`${name} not found in the shader.`);
+}
+
+/**
+ * Compiles encodePhysics/decodePhysics out of a material's fragment shader, with the material's
+ * defines, into JavaScript. The tests run the shader's own packing code, not a copy of it.
+ */
+function compilePhysicsCodec(material: THREE.ShaderMaterial) {
+    const source = preprocess(material.fragmentShader, material.defines);
+    const toJs = (name: string) => extractFunction(source, name)
+        .replace(/^\w+ (\w+)\(\w+ (\w+)\)/, 'function $1($2)')
+        .replace(/\bfloat (\w+) =/g, 'let $1 =')
+        .replace(/\bvec[234]\(/g, 'vec(');
+    const codec = new Function('glsl', `const { vec, floor, clamp } = glsl;\n${toJs('encodePhysics')}\n${toJs('decodePhysics')}\nreturn { encodePhysics, decodePhysics };`)(glsl);
+    return codec as { encodePhysics: (state: Vector) => Vector; decodePhysics: (texel: Vector) => Vector };
+}
+
+/** What a render target texel keeps of a fragment color, by the target's texture type. */
+function getStore(target: THREE.WebGLRenderTarget) {
+    return target.texture.type === THREE.FloatType
+        ? (color: number[]) => vec(color.map(value => Math.fround(value)))
+        : (color: number[]) => vec(color.map(value => Math.round(Math.min(1, Math.max(0, value)) * 255) / 255));
+}
+
+function getPhysicsTargets() {
+    // _initRenderTargets creates the ping-pong pair first.
+    return gpu.renderTargets.slice(0, 2);
+}
+
+/** Writes `state` to the physics target and reads it back, as the next physics pass would. */
+function createRoundTrip() {
+    const { encodePhysics, decodePhysics } = compilePhysicsCodec(getPhysicsMaterial());
+    const store = getStore(getPhysicsTargets()[0]);
+    return (state: number[]) => decodePhysics(store(encodePhysics(vec(state))));
+}
+
+/** Refrosts a fully wiped texel (`clear -= uRefrostRate` on dry, unmasked glass) until it frosts over. */
+function stepsToRefrost(rate: number, roundTrip: (state: number[]) => Vector, limit = 100000) {
+    let state = vec(1, 0, 0);
+    for (let step = 1; step <= limit; step++) {
+        state = roundTrip([state.r - rate, state.g, state.b]);
+        if (state.r <= 0) return step;
+    }
+    return Infinity;
+}
+
+describe('physics encoding', () => {
+    let mounted: MountedClarity | null = null;
+
+    beforeEach(() => installBrowserStubs());
+    afterEach(() => {
+        mounted?.unmount();
+        mounted = null;
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('uses filtered float targets when the GPU can render and filter floats', () => {
+        mounted = mountClarity(Clarity);
+        for (const target of getPhysicsTargets()) {
+            expect(target.texture.type).toBe(THREE.FloatType);
+            expect(target.texture.minFilter).toBe(THREE.LinearFilter);
+        }
+        expect(getPhysicsMaterial().defines).toEqual({});
+    });
+
+    it('samples float targets by hand when float filtering is unavailable', () => {
+        gpu.extensions = new Set(['EXT_color_buffer_float']);
+        mounted = mountClarity(Clarity);
+        for (const target of getPhysicsTargets()) {
+            expect(target.texture.type).toBe(THREE.FloatType);
+            expect(target.texture.minFilter).toBe(THREE.NearestFilter);
+            expect(target.texture.magFilter).toBe(THREE.NearestFilter);
+        }
+        expect(getPhysicsMaterial().defines).toEqual({ PHYSICS_NEAREST: '' });
+    });
+
+    it('packs the state into RGBA8 without renderable floats, even if half floats render', () => {
+        gpu.extensions = new Set(['EXT_color_buffer_half_float']);
+        mounted = mountClarity(Clarity);
+        for (const target of getPhysicsTargets()) {
+            expect(target.texture.type).toBe(THREE.UnsignedByteType);
+            expect(target.texture.minFilter).toBe(THREE.NearestFilter);
+        }
+        expect(getPhysicsMaterial().defines).toEqual({ PHYSICS_PACKED: '' });
+    });
+
+    it('round-trips the physics state through each encoding', () => {
+        for (const extensions of [['EXT_color_buffer_float', 'OES_texture_float_linear'], ['EXT_color_buffer_float'], []]) {
+            gpu.extensions = new Set(extensions);
+            gpu.renderTargets = [];
+            gpu.materials = [];
+            const { unmount } = mountClarity(Clarity);
+            const roundTrip = createRoundTrip();
+            unmount();
+
+            for (const state of [[0, 0, 0], [1, 1, 1], [0.5, 0.25, 0.75], [0.99991, 0.3, 0.02], [1.4, -0.2, 0.5]]) {
+                const [clear, water, drip] = roundTrip(state);
+                const expected = state.map(value => Math.min(1, Math.max(0, value)));
+                // Packed clear keeps 16 bits; packed water and drip are truncated to 8.
+                expect(clear).toBeCloseTo(expected[0], 4);
+                expect(Math.abs(water - expected[1])).toBeLessThan(1 / 255);
+                expect(Math.abs(drip - expected[2])).toBeLessThan(1 / 255);
+            }
+        }
+    });
+
+    it('refrosts at the same pace under both encodings, down to the slowest slider rate', () => {
+        const roundTrips = [new Set(['EXT_color_buffer_float']), new Set<string>()].map(extensions => {
+            gpu.extensions = extensions;
+            gpu.renderTargets = [];
+            gpu.materials = [];
+            const { unmount } = mountClarity(Clarity);
+            const roundTrip = createRoundTrip();
+            unmount();
+            return roundTrip;
+        });
+
+        // Packed steps round to whole 1/65535 units, so 0.0001 (6.55 units) runs ~7% fast.
+        for (const rate of [0.0001, 0.0002, 0.003, 0.005]) {
+            const ideal = Math.ceil(1 / rate);
+            for (const roundTrip of roundTrips) {
+                expect(Math.abs(stepsToRefrost(rate, roundTrip) - ideal)).toBeLessThanOrEqual(ideal * 0.1);
+            }
+        }
+    });
+});